@@ -0,0 +1,539 @@
+/**
+ * Robot simulator for developing the dashboard without a Jetson
+ *
+ * Serves the same websocket protocol as the AI brain: polling (`g_pos,g_detect,...`),
+ * subscriptions, the hello handshake, get/set offsets and color correction and navigation
+ * goals, in JSON or MessagePack. A virtual robot drives around the field, or to the goal
+ * when one is set, and reports the balls inside its camera field of view as detections.
+ *
+ * Usage: node server/index.js [--port 3030] [--stream] [--stream-port 25565]
+ *
+ * --stream serves a synthetic MP4 test pattern at /stream/camera.mp4, which needs ffmpeg on the PATH
+ */
+const http = require("http");
+const { spawn } = require("child_process");
+const express = require("express");
+const cors = require("cors");
+const { WebSocketServer } = require("ws");
+const { encode } = require("@msgpack/msgpack");
+const { Jimp } = require("jimp");
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const options = {
+  port: Number(option("port", process.env.SIM_PORT || 3030)),
+  stream: args.includes("--stream"),
+  streamPort: Number(option("stream-port", process.env.SIM_STREAM_PORT || 25565)),
+  streamPath: "/stream/camera.mp4",
+};
+
+const PROTOCOL_VERSION = 1;
+
+const commands = {
+  gPos: "g_pos",
+  gColor: "g_color",
+  gDepth: "g_depth",
+  gStats: "g_stats",
+  gDetect: "g_detect",
+  gMap: "g_map",
+  gGetCameraOffset: "get_camera_offset",
+  gSetCameraOffset: "set_camera_offset",
+  gGetGpsOffset: "get_gps_offset",
+  gSetGpsOffset: "set_gps_offset",
+  gGetColorCorrection: "get_color_correction",
+  gSetColorCorrection: "set_color_correction",
+  gSetFormat: "set_format",
+  gSubscribe: "subscribe",
+  gSetGoal: "set_goal",
+  gClearGoal: "clear_goal",
+  gHello: "hello",
+};
+
+const FIELD_SIZE = 3.6576; // meters
+const HALF_FIELD = FIELD_SIZE / 2;
+const BALL_SIZE = 0.08255; // meters
+const CAMERA_FOV = 50; // degrees
+const CAMERA_RANGE = 3; // meters
+const CAMERA_HEIGHT = 0.3; // meters
+const FRAME_WIDTH = 640;
+const FRAME_HEIGHT = 480;
+const IMAGE_WIDTH = 320;
+const IMAGE_HEIGHT = 240;
+const GRID_SIZE = 24;
+const CLASSES = ["Blue Ball", "Red Ball"];
+const GOAL_SPEED = 0.5; // meters per second
+const GOAL_TURN_RATE = 90; // degrees per second
+
+const d2r = Math.PI / 180;
+const startedAt = Date.now();
+
+/**
+ * Settings that can be changed by the dashboard
+ */
+const settings = {
+  cameraOffset: { off_x: 0, off_y: 0, off_z: 0, unit: "meters", heading_offset: 0, elevation_offset: 0 },
+  gpsOffset: { off_x: 0, off_y: 0, off_z: 0, unit: "meters", heading_offset: 0 },
+  colorCorrection: { h: 0, s: 0, v: 0 },
+};
+
+const randomBall = () => ({
+  classId: Math.random() < 0.5 ? 0 : 1,
+  x: (Math.random() * 2 - 1) * (HALF_FIELD - 0.2),
+  y: (Math.random() * 2 - 1) * (HALF_FIELD - 0.2),
+});
+
+const balls = Array.from({ length: 12 }, randomBall);
+
+/**
+ * Robot pose, driven along a figure eight or to the navigation goal
+ */
+const robot = { x: 0, y: 0, azimuth: 0 };
+
+/**
+ * Navigation goal set by the dashboard, null when the robot drives its figure eight
+ */
+let goal = null;
+let lastUpdate = Date.now();
+
+/**
+ * Turns an angle towards a target by at most a step, all in degrees
+ */
+const turnTowards = (from, to, step) => {
+  const difference = ((to - from + 540) % 360) - 180;
+  return (from + Math.max(-step, Math.min(step, difference)) + 360) % 360;
+};
+
+/**
+ * Drives to the goal, then turns to its heading
+ */
+const driveToGoal = (dt) => {
+  const dx = goal.x - robot.x;
+  const dy = goal.y - robot.y;
+  const distance = Math.hypot(dx, dy);
+  const turn = GOAL_TURN_RATE * dt;
+  if (distance > 0.02) {
+    robot.azimuth = turnTowards(robot.azimuth, (Math.atan2(dx, dy) / d2r + 360) % 360, turn);
+    const step = Math.min(distance, GOAL_SPEED * dt);
+    robot.x += (dx / distance) * step;
+    robot.y += (dy / distance) * step;
+  } else {
+    robot.azimuth = turnTowards(robot.azimuth, goal.heading, turn);
+  }
+};
+
+const updateRobot = () => {
+  const now = Date.now();
+  const dt = (now - lastUpdate) / 1000;
+  lastUpdate = now;
+  if (goal) {
+    driveToGoal(dt);
+    pickUpBalls();
+    return;
+  }
+
+  const t = (now - startedAt) / 1000;
+  const w = 0.15;
+  const x = 1.2 * Math.sin(w * t);
+  const y = 0.9 * Math.sin(2 * w * t);
+  const vx = 1.2 * w * Math.cos(w * t);
+  const vy = 1.8 * w * Math.cos(2 * w * t);
+
+  robot.x = x;
+  robot.y = y;
+  robot.azimuth = ((Math.atan2(vx, vy) / d2r) + 360) % 360; // 0 is +y, clockwise
+  pickUpBalls();
+};
+
+/**
+ * The robot picks up balls it drives over, they reappear somewhere else
+ */
+const pickUpBalls = () => {
+  balls.forEach((ball, index) => {
+    if (Math.hypot(ball.x - robot.x, ball.y - robot.y) < 0.2) {
+      balls[index] = randomBall();
+    }
+  });
+};
+
+setInterval(updateRobot, 1000 / 60);
+
+/**
+ * Balls inside the camera field of view, nearest first
+ */
+const visibleBalls = () => {
+  const focal = FRAME_WIDTH / 2 / Math.tan((CAMERA_FOV / 2) * d2r);
+  return balls
+    .map((ball) => {
+      const dx = ball.x - robot.x;
+      const dy = ball.y - robot.y;
+      const depth = Math.hypot(dx, dy);
+      let bearing = Math.atan2(dx, dy) / d2r - robot.azimuth;
+      bearing = ((bearing + 540) % 360) - 180; // -180..180, positive to the right
+      return { ball, depth, bearing };
+    })
+    .filter(({ depth, bearing }) => depth > 0.15 && depth < CAMERA_RANGE && Math.abs(bearing) < CAMERA_FOV / 2)
+    .sort((a, b) => a.depth - b.depth)
+    .map(({ ball, depth, bearing }) => {
+      const size = (BALL_SIZE * focal) / depth;
+      const centerX = FRAME_WIDTH / 2 + Math.tan(bearing * d2r) * focal;
+      const centerY = FRAME_HEIGHT / 2 + (CAMERA_HEIGHT * focal) / depth;
+      return {
+        ball,
+        depth,
+        screen: {
+          x: Math.round(centerX - size / 2),
+          y: Math.round(centerY - size / 2),
+          width: Math.max(1, Math.round(size)),
+          height: Math.max(1, Math.round(size)),
+        },
+      };
+    })
+    .filter(({ screen }) => screen.y < FRAME_HEIGHT); // too close, below the bottom of the frame
+};
+
+const position = () => ({
+  x: robot.x,
+  y: robot.y,
+  z: 0,
+  status: 1,
+  azimuth: robot.azimuth,
+  elevation: 0,
+  rotation: 0,
+  connected: true,
+});
+
+const detections = () =>
+  visibleBalls().map(({ ball, depth, screen }) => ({
+    class_id: ball.classId,
+    probability: 0.85 + Math.random() * 0.14,
+    depth,
+    screen_location: screen,
+    map_location: {
+      x: [ball.x + (Math.random() - 0.5) * 0.02],
+      y: [ball.y + (Math.random() - 0.5) * 0.02],
+      z: [BALL_SIZE / 2],
+    },
+  }));
+
+const stats = () => ({
+  fps: 29 + Math.random() * 2,
+  invoke_time: 0.011 + Math.random() * 0.003,
+  cpu_temp: 45 + 5 * Math.sin((Date.now() - startedAt) / 60000),
+  video_width: FRAME_WIDTH,
+  video_height: FRAME_HEIGHT,
+  run_time: Math.floor((Date.now() - startedAt) / 1000),
+  gps_connected: true,
+});
+
+/**
+ * Traversal cost grid: blocked along the walls, expensive around balls, free elsewhere
+ */
+const gridTiles = () => {
+  const tiles = new Float32Array(GRID_SIZE * GRID_SIZE);
+  const cell = FIELD_SIZE / GRID_SIZE;
+  for (let row = 0; row < GRID_SIZE; row++) {
+    for (let column = 0; column < GRID_SIZE; column++) {
+      // row 0 is the top of the field
+      const x = -HALF_FIELD + (column + 0.5) * cell;
+      const y = HALF_FIELD - (row + 0.5) * cell;
+      const wall = row === 0 || column === 0 || row === GRID_SIZE - 1 || column === GRID_SIZE - 1;
+      const nearBall = balls.some((ball) => Math.hypot(ball.x - x, ball.y - y) < cell);
+      tiles[row * GRID_SIZE + column] = wall ? 0 : nearBall ? 10 : 1;
+    }
+  }
+  return tiles;
+};
+
+const map = (format) => {
+  const tiles = gridTiles();
+  return {
+    size: { width: GRID_SIZE, height: GRID_SIZE },
+    // MessagePack clients get the tiles the way msgpack-numpy packs them
+    tiles:
+      format === "msgpack"
+        ? { nd: true, type: "<f4", kind: "", shape: [tiles.length], data: Buffer.from(tiles.buffer) }
+        : Array.from(tiles),
+  };
+};
+
+/**
+ * Fills a rectangle of a Jimp bitmap
+ */
+const fillRect = (image, x, y, width, height, [r, g, b]) => {
+  const { data, width: imageWidth, height: imageHeight } = image.bitmap;
+  for (let row = Math.max(0, y); row < Math.min(imageHeight, y + height); row++) {
+    for (let column = Math.max(0, x); column < Math.min(imageWidth, x + width); column++) {
+      const offset = (row * imageWidth + column) * 4;
+      data[offset] = r;
+      data[offset + 1] = g;
+      data[offset + 2] = b;
+      data[offset + 3] = 255;
+    }
+  }
+};
+
+const imageCache = { color: null, depth: null, at: 0 };
+
+/**
+ * Renders small synthetic color and depth images, at most ten times a second
+ */
+const renderImages = async () => {
+  if (Date.now() - imageCache.at < 100 && imageCache.color) {
+    return imageCache;
+  }
+  const color = new Jimp({ width: IMAGE_WIDTH, height: IMAGE_HEIGHT, color: 0x5a6470ff });
+  const depth = new Jimp({ width: IMAGE_WIDTH, height: IMAGE_HEIGHT, color: 0x000000ff });
+  const horizon = IMAGE_HEIGHT / 2;
+  fillRect(color, 0, horizon, IMAGE_WIDTH, IMAGE_HEIGHT - horizon, [70, 70, 76]);
+  for (let row = horizon; row < IMAGE_HEIGHT; row++) {
+    const shade = Math.round(((row - horizon) / (IMAGE_HEIGHT - horizon)) * 255);
+    fillRect(depth, 0, row, IMAGE_WIDTH, 1, [shade, shade, shade]);
+  }
+
+  const sx = IMAGE_WIDTH / FRAME_WIDTH;
+  const sy = IMAGE_HEIGHT / FRAME_HEIGHT;
+  visibleBalls()
+    .reverse()
+    .forEach(({ ball, depth: distance, screen }) => {
+      const rect = [
+        Math.round(screen.x * sx),
+        Math.round(screen.y * sy),
+        Math.max(1, Math.round(screen.width * sx)),
+        Math.max(1, Math.round(screen.height * sy)),
+      ];
+      fillRect(color, ...rect, ball.classId === 0 ? [0, 119, 200] : [210, 38, 48]);
+      const shade = Math.round(255 * (1 - distance / CAMERA_RANGE));
+      fillRect(depth, ...rect, [shade, shade, shade]);
+    });
+
+  imageCache.color = await color.getBuffer("image/png");
+  imageCache.depth = await depth.getBuffer("image/png");
+  imageCache.at = Date.now();
+  return imageCache;
+};
+
+const image = (png, format) => ({
+  Image: {
+    Valid: true,
+    Width: IMAGE_WIDTH,
+    Height: IMAGE_HEIGHT,
+    // MessagePack clients get the raw bytes instead of base64
+    Data: format === "msgpack" ? png : png.toString("base64"),
+    StreamAvailable: options.stream,
+  },
+});
+
+/**
+ * Builds a data frame with the fields for a list of data commands
+ */
+const buildFrame = async (topics, format) => {
+  const frame = {};
+  for (const topic of topics) {
+    switch (topic) {
+      case commands.gPos:
+        frame.Position = position();
+        break;
+      case commands.gDetect:
+        frame.Detections = detections();
+        break;
+      case commands.gStats:
+        frame.Stats = stats();
+        break;
+      case commands.gMap:
+        frame.Map = map(format);
+        break;
+      case commands.gColor:
+        frame.Color = image((await renderImages()).color, format);
+        break;
+      case commands.gDepth:
+        frame.Depth = image((await renderImages()).depth, format);
+        break;
+      default:
+        break;
+    }
+  }
+  return frame;
+};
+
+/**
+ * Parses `x,y,z,unit,heading[,elevation]` into an offset
+ */
+const parseOffset = (values, withElevation) => {
+  const [x, y, z, unit, heading, elevation] = values;
+  const numbers = [x, y, z, heading].concat(withElevation ? [elevation] : []).map(Number);
+  if (numbers.some((n) => Number.isNaN(n))) {
+    throw new Error("invalid offset");
+  }
+  const offset = { off_x: numbers[0], off_y: numbers[1], off_z: numbers[2], unit: unit || "meters", heading_offset: numbers[3] };
+  if (withElevation) {
+    offset.elevation_offset = numbers[4];
+  }
+  return offset;
+};
+
+/**
+ * Parses `x,y,heading` into a goal on the field
+ */
+const parseGoal = (values) => {
+  const [x, y, heading] = values.map(Number);
+  if ([x, y, heading].some((n) => Number.isNaN(n))) {
+    throw new Error("invalid goal");
+  }
+  if (Math.abs(x) > HALF_FIELD || Math.abs(y) > HALF_FIELD) {
+    throw new Error("goal is outside the field");
+  }
+  return { x, y, heading: ((heading % 360) + 360) % 360 };
+};
+
+const parseColorCorrection = (values) => {
+  const [h, s, v] = values.map(Number);
+  if ([h, s, v].some((n) => Number.isNaN(n))) {
+    throw new Error("invalid color correction");
+  }
+  return { h, s, v };
+};
+
+/**
+ * Handles one client connection
+ */
+const handleClient = (socket) => {
+  const client = { format: "json", subscriptions: [] };
+
+  const send = (frame) => {
+    if (socket.readyState !== socket.OPEN) {
+      return;
+    }
+    socket.send(client.format === "msgpack" ? encode(frame) : JSON.stringify(frame));
+  };
+
+  const unsubscribe = () => {
+    client.subscriptions.forEach((timer) => clearInterval(timer));
+    client.subscriptions = [];
+  };
+
+  const subscribe = (topics) => {
+    unsubscribe();
+    topics.forEach((entry) => {
+      const [topic, rate] = entry.split(":");
+      const hz = Math.min(60, Math.max(0.1, Number(rate) || 10));
+      client.subscriptions.push(
+        setInterval(async () => send({ Command: topic, ...(await buildFrame([topic], client.format)) }), 1000 / hz)
+      );
+    });
+  };
+
+  socket.on("message", async (data, isBinary) => {
+    if (isBinary) {
+      return;
+    }
+    const tokens = data.toString().split(",").map((token) => token.trim());
+    const idToken = tokens.find((token) => token.startsWith("id="));
+    const requestId = idToken ? Number(idToken.slice(3)) : undefined;
+    const [command, ...values] = tokens.filter((token) => token !== idToken);
+    const reply = (frame) => send({ Command: command, ...(requestId !== undefined ? { RequestId: requestId } : {}), ...frame });
+
+    try {
+      switch (command) {
+        case commands.gHello:
+          reply({
+            Hello: {
+              version: PROTOCOL_VERSION,
+              commands: Object.values(commands),
+              classes: CLASSES,
+              robot: "Simulator",
+              team: "SIM",
+              build: `simulator-${process.version}`,
+              stream: options.stream,
+            },
+          });
+          break;
+        case commands.gSetFormat:
+          client.format = values[0] === "msgpack" ? "msgpack" : "json";
+          break;
+        case commands.gSubscribe:
+          subscribe(values);
+          reply({});
+          break;
+        case commands.gGetCameraOffset:
+          reply({ CameraOffset: settings.cameraOffset });
+          break;
+        case commands.gSetCameraOffset:
+          settings.cameraOffset = parseOffset(values, true);
+          reply({ CameraOffset: settings.cameraOffset });
+          break;
+        case commands.gGetGpsOffset:
+          reply({ GpsOffset: settings.gpsOffset });
+          break;
+        case commands.gSetGpsOffset:
+          settings.gpsOffset = parseOffset(values, false);
+          reply({ GpsOffset: settings.gpsOffset });
+          break;
+        case commands.gGetColorCorrection:
+          reply({ ColorCorrection: settings.colorCorrection });
+          break;
+        case commands.gSetColorCorrection:
+          settings.colorCorrection = parseColorCorrection(values);
+          reply({ ColorCorrection: settings.colorCorrection });
+          break;
+        case commands.gSetGoal:
+          goal = parseGoal(values);
+          reply({ Goal: goal });
+          break;
+        case commands.gClearGoal:
+          goal = null;
+          reply({});
+          break;
+        default: {
+          // a poll for one or more data commands
+          const frame = await buildFrame([command, ...values], client.format);
+          send({ ...(requestId !== undefined ? { RequestId: requestId } : {}), ...frame });
+          break;
+        }
+      }
+    } catch (ex) {
+      reply({ Error: ex.message });
+    }
+  });
+
+  socket.on("close", unsubscribe);
+};
+
+const wss = new WebSocketServer({ port: options.port });
+wss.on("connection", handleClient);
+console.log(`[Simulator] Websocket server listening on ws://localhost:${options.port}`);
+
+if (options.stream) {
+  const app = express();
+  app.use(cors());
+  app.get(options.streamPath, (req, res) => {
+    const ffmpeg = spawn("ffmpeg", [
+      "-loglevel", "error",
+      "-re",
+      "-f", "lavfi",
+      "-i", `testsrc=size=${FRAME_WIDTH}x${FRAME_HEIGHT}:rate=30`,
+      "-c:v", "libx264",
+      "-profile:v", "high",
+      "-level", "3.1",
+      "-pix_fmt", "yuv420p",
+      "-tune", "zerolatency",
+      "-g", "30",
+      "-movflags", "frag_keyframe+empty_moov+default_base_moof",
+      "-f", "mp4",
+      "pipe:1",
+    ]);
+    ffmpeg.on("error", (ex) => {
+      console.log(`[Simulator] Failed to start ffmpeg - ${ex.message}`);
+      res.status(500).end();
+    });
+    res.setHeader("Content-Type", "video/mp4");
+    ffmpeg.stdout.pipe(res);
+    req.on("close", () => ffmpeg.kill("SIGKILL"));
+  });
+  http.createServer(app).listen(options.streamPort, () => {
+    console.log(`[Simulator] Streaming test pattern at http://localhost:${options.streamPort}${options.streamPath}`);
+  });
+}
@@ -1,15 +1,15 @@
 import React, { useEffect } from "react";
-import {
-  setDataService,
-  setDataServiceConnected,
-  updateResponse,
-} from "./state/data-slice";
+import { setResponse, updateResponse } from "./state/data-slice";
+import { clearHistory, recordSamples } from "./state/history-slice";
 import "./App.css";
-import { useAppDispatch, useAppSelector } from "./state/hooks";
+import { useAppDispatch } from "./state/hooks";
 import Navigator from "./components/navigation/navigator";
-import { DataService } from "./services/data-service";
-import { Offset, DataResponse, ColorCorrection } from "./lib/data-response";
-import { setCameraOffset, setGpsOffset, setColorCorrection } from "./state/settings-slice";
+import { DataResponse } from "./lib/data-response";
+import { setPlaybackProgress } from "./state/playback-slice";
+import { PlaybackProgress, sessionPlayer } from "./services/session-player";
+import { batchPerAnimationFrame } from "./lib/frame-batcher";
+import { FrameSample, sampleOf } from "./lib/samples";
+import { connect, disconnect } from "./state/connection";
 
 /**
  * App
@@ -18,39 +18,57 @@ import { setCameraOffset, setGpsOffset, setColorCorrection } from "./state/setti
  */
 const App = () => {
   const dispatch = useAppDispatch();
-  const socketIp = useAppSelector((state) => state.settings.socketIp);
-  const socketPort = useAppSelector((state) => state.settings.socketPort);
 
   useEffect(() => {
-    const dataService = new DataService(socketIp, socketPort);
-    dispatch(setDataService(dataService));
-
-    dataService.on("socketConnected", () => {
-      dispatch(setDataServiceConnected(true));
-      dataService.getCameraOffset();
-      dataService.getGpsOffset();
-      dataService.getColorCorrection();
-    });
-
-    dataService.on("message", (msg: DataResponse) => {
-      dispatch(updateResponse(msg));
-    });
-
-    dataService.on("getCameraOffset", (msg: Offset) => {
-      dispatch(setCameraOffset(msg));
-    });
-
-    dataService.on("getGpsOffset", (msg: Offset) => {
-      dispatch(setGpsOffset(msg));
-    });
-
-    dataService.on("getColorCorrection", (msg: ColorCorrection) => {
-      dispatch(setColorCorrection(msg));
-    });
-
-    dataService.on("socketConnectionClosed", () => {
-      dispatch(setDataServiceConnected(false));
-    });
+    dispatch(connect());
+
+    // frames arriving between paints are merged into a single store update, a reset
+    // replaces whatever is pending
+    const dispatchResponse = batchPerAnimationFrame<{ msg: DataResponse; reset: boolean }>(
+      (pending, frame) =>
+        frame.reset
+          ? frame
+          : { msg: { ...pending.msg, ...frame.msg }, reset: pending.reset },
+      ({ msg, reset }) => dispatch(reset ? setResponse(msg) : updateResponse(msg))
+    );
+    const dispatchSamples = batchPerAnimationFrame<FrameSample[]>(
+      (pending, samples) => pending.concat(samples),
+      (samples) => dispatch(recordSamples(samples))
+    );
+
+    // recorded frames go into the history at the time they were received
+    const onFrame = (msg: DataResponse, t: number) => {
+      dispatchResponse({ msg, reset: false });
+      const sample = sampleOf(msg, t);
+      if (sample) {
+        dispatchSamples([sample]);
+      }
+    };
+
+    const onReset = (msg: DataResponse) => {
+      dispatchResponse({ msg, reset: true });
+    };
+
+    let playbackLoaded = false;
+    const onProgress = (progress: PlaybackProgress) => {
+      // live and recorded frames don't belong in the same history
+      if (progress.loaded !== playbackLoaded) {
+        playbackLoaded = progress.loaded;
+        dispatch(clearHistory());
+      }
+      dispatch(setPlaybackProgress(progress));
+    };
+
+    sessionPlayer.on("frame", onFrame);
+    sessionPlayer.on("reset", onReset);
+    sessionPlayer.on("progress", onProgress);
+
+    return () => {
+      sessionPlayer.off("frame", onFrame);
+      sessionPlayer.off("reset", onReset);
+      sessionPlayer.off("progress", onProgress);
+      dispatch(disconnect());
+    };
   }, []);
 
   return (
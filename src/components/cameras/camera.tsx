@@ -1,19 +1,20 @@
-import React, { useEffect, useRef, useState } from "react";
+import React, { useMemo, useRef } from "react";
 import { Box, IconButton, Tooltip } from "@mui/material";
 import ConnectingToCameraProgress from "./connecting-to-camera-progress";
-import { Detection, Image } from "../../lib/data-response";
+import { Image } from "../../lib/data-response";
+import { ShownDetection } from "../../lib/detection-tracker";
 import useWindowDimensions from "../../lib/hooks";
 import { Layer, Rect, Stage, Text } from "react-konva";
-import { v4 as uuidv4 } from "uuid";
 import { config } from "../../util/config";
 import { PhotoCamera } from "@mui/icons-material";
 import Konva from "konva";
 import { Jimp } from "jimp";
 import useMediaSourceStream from "../../lib/use-media-source";
+import { useAppSelector, useGameProfile } from "../../state/hooks";
 
 interface CameraProps {
   img?: Image;
-  detections?: Detection[];
+  detections?: ShownDetection[];
   streamUrl?: string;
   frameWidth?: number;
   frameHeight?: number;
@@ -47,22 +48,23 @@ const Camera = ({ img, detections, streamUrl, frameWidth, frameHeight }: CameraP
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<Konva.Stage>(null);
   const { height } = useWindowDimensions();
-  const [sorted, setSorted] = useState<Detection[]>(null);
   const mediaRef = streamUrl ? videoRef : imageRef;
   const sourceWidth = frameWidth ?? img?.width ?? 1;
   const sourceHeight = frameHeight ?? img?.height ?? 1;
   const canCaptureImage = Boolean(!streamUrl && img && img.data);
+  const classNames = useAppSelector((state) => state.data.hello?.classes);
+  const { elements } = useGameProfile();
 
   useMediaSourceStream(videoRef, streamUrl, config.stream?.mimeCodec);
 
   /**
    * Sort the list of detections based on detection depth to get proper on screen layering on top of the displayed image
    */
-  useEffect(() => {
-    if (detections) {
-      setSorted(detections.slice(0).sort((a, b) => b.depth - a.depth));
-    }
-  }, [detections]);
+  const sorted = useMemo<ShownDetection[]>(
+    () =>
+      detections ? detections.slice(0).sort((a, b) => b.depth - a.depth) : null,
+    [detections]
+  );
 
   // To save image to disk, Kanva stage must be coverted to .png and overlaid on the original image
   const cameraButtonClicked = async () => {
@@ -147,7 +149,15 @@ const Camera = ({ img, detections, streamUrl, frameWidth, frameHeight }: CameraP
             >
               {sorted ? (
                 <>
-                  {sorted.map((detection) => {
+                  {sorted.map((detection, index) => {
+                    // skip detections with fields dropped by the decoder
+                    if (
+                      !detection.screenLocation ||
+                      !detection.mapLocation?.x?.length ||
+                      !detection.mapLocation?.y?.length
+                    ) {
+                      return null;
+                    }
                     const bboxWidth = detection.screenLocation.width / widthRatio;
                     const bboxHeight =
                       detection.screenLocation.height / heightRatio;
@@ -166,9 +176,15 @@ const Camera = ({ img, detections, streamUrl, frameWidth, frameHeight }: CameraP
                     const classBoxY = bboxY - classBoxHeight * 1.04;
 
                     return (
-                      <>
+                      <React.Fragment
+                        key={
+                          detection.id ?? `${detection.class}-${index}`
+                        }
+                      >
                         {detection.depth ? ( // depth is -1 if received json detection had a depth of NaN originally
-                          <Layer key={uuidv4()}>
+                          <Layer
+                            opacity={detection.stale ? 0.5 : 1}
+                          >
                             {/* class box */}
                             <Rect
                               x={bboxX}
@@ -182,9 +198,11 @@ const Camera = ({ img, detections, streamUrl, frameWidth, frameHeight }: CameraP
                             />
                             {/* class name */}
                             <Text
-                              fill={config.elements.label.textColors.white}
+                              fill={config.labelColor}
                               text={`${
-                                config.elements.label.text[detection.class]
+                                elements[detection.class]?.name ??
+                                classNames?.[detection.class] ??
+                                detection.class
                               }`}
                               x={bboxX}
                               y={bboxY - classBoxHeight}
@@ -202,17 +220,19 @@ const Camera = ({ img, detections, streamUrl, frameWidth, frameHeight }: CameraP
                               height={bboxHeight > 0 ? bboxHeight : 1}
                               width={bboxWidth > 0 ? bboxWidth : 1}
                               fill={
-                                config.elements.backgroundColors[detection.class]
+                                elements[detection.class]?.backgroundColor ??
+                                "rgba(147, 149, 151, .3)"
                               }
                               stroke={
-                                config.elements.borderColors[detection.class]
+                                elements[detection.class]?.borderColor ??
+                                "rgba(147, 149, 151, .8)"
                               }
                               strokeWidth={2}
                               cornerRadius={0}
                             />
                             {/* coordinates */}
                             <Text
-                              fill={config.elements.label.textColors.white}
+                              fill={config.labelColor}
                               text={`X ${detection.mapLocation.x[0]
                                 .toFixed(2)
                                 .toString()}m\nY ${detection.mapLocation.y[0]
@@ -229,7 +249,7 @@ const Camera = ({ img, detections, streamUrl, frameWidth, frameHeight }: CameraP
                             />
                             {/* depth */}
                             <Text
-                              fill={config.elements.label.textColors.white}
+                              fill={config.labelColor}
                               text={`Distance\n${detection.depth >= 0 ? detection.depth
                                 .toFixed(2)
                                 .toString()+"m" : "Unknown"}`}
@@ -244,7 +264,7 @@ const Camera = ({ img, detections, streamUrl, frameWidth, frameHeight }: CameraP
                             />
                           </Layer>
                         ) : null}
-                      </>
+                      </React.Fragment>
                     );
                   })}
                 </>
@@ -264,4 +284,4 @@ const Camera = ({ img, detections, streamUrl, frameWidth, frameHeight }: CameraP
   );
 };
 
-export default Camera;
+export default React.memo(Camera);
@@ -1,5 +1,9 @@
 import React, { useMemo } from "react";
-import { useAppSelector } from "../../state/hooks";
+import {
+  useAppSelector,
+  useDataSubscription,
+  useDetections,
+} from "../../state/hooks";
 import Camera from "./camera";
 import { config } from "../../util/config";
 
@@ -9,35 +13,35 @@ import { config } from "../../util/config";
  * @returns JSX.Element
  */
 const ColorCamera = () => {
-  const response = useAppSelector((state) => state.data.response);
+  const image = useAppSelector((state) => state.data.response?.color?.image);
+  const detections = useDetections();
+  const videoWidth = useAppSelector(
+    (state) => state.data.response?.stats?.videoWidth
+  );
+  const videoHeight = useAppSelector(
+    (state) => state.data.response?.stats?.videoHeight
+  );
   const socketIp = useAppSelector((state) => state.settings.socketIp);
+  const streamPort = useAppSelector((state) => state.settings.streamPort);
+  const streamPath = useAppSelector((state) => state.settings.streamPath);
+  const hello = useAppSelector((state) => state.data.hello);
+  const streamUnsupported = hello !== null && hello.stream === false;
+  useDataSubscription(["color", "detect", "stats"]);
 
   const streamUrl = useMemo(() => {
-    if (!socketIp || !config.stream?.path) {
+    if (!socketIp || !streamPath || streamUnsupported) {
       return undefined;
     }
-    return `${config.stream.protocol}://${socketIp}:${config.stream.port}${config.stream.path}`;
-  }, [socketIp]);
+    return `${config.stream.protocol}://${socketIp}:${streamPort}${streamPath}`;
+  }, [socketIp, streamPort, streamPath, streamUnsupported]);
 
   return (
     <Camera
-      img={response && response.color ? response.color.image : null}
-      detections={response ? response.detections : null}
+      img={image ?? null}
+      detections={detections ?? null}
       streamUrl={streamUrl}
-      frameWidth={
-        response && response.stats && response.stats.videoWidth
-          ? response.stats.videoWidth
-          : response && response.color && response.color.image
-          ? response.color.image.width
-          : undefined
-      }
-      frameHeight={
-        response && response.stats && response.stats.videoHeight
-          ? response.stats.videoHeight
-          : response && response.color && response.color.image
-          ? response.color.image.height
-          : undefined
-      }
+      frameWidth={videoWidth || image?.width}
+      frameHeight={videoHeight || image?.height}
     />
   );
 };
@@ -1,5 +1,9 @@
 import React from "react";
-import { useAppSelector } from "../../state/hooks";
+import {
+  useAppSelector,
+  useDataSubscription,
+  useDetections,
+} from "../../state/hooks";
 import Camera from "./camera";
 
 /**
@@ -8,12 +12,14 @@ import Camera from "./camera";
  * @returns JSX.element
  */
 const DepthCamera = () => {
-  const response = useAppSelector((state) => state.data.response);
+  const image = useAppSelector((state) => state.data.response?.depth?.image);
+  const detections = useDetections();
+  useDataSubscription(["depth", "detect"]);
 
   return (
     <Camera
-      img={response && response.depth ? response.depth.image : null}
-      detections={response ? response.detections : null}
+      img={image ?? null}
+      detections={detections ?? null}
     />
   );
 };
@@ -0,0 +1,241 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Circle, Group, Layer, Line, Rect, Text } from "react-konva";
+import { KonvaEventObject } from "konva/lib/Node";
+import {
+  useAppDispatch,
+  useAppSelector,
+  useUprightText,
+} from "../../state/hooks";
+import { addNote, addPin, removePin } from "../../state/annotations-slice";
+import { Direction, FieldPin, FieldTool } from "../../lib/types";
+import { Units } from "../../lib/math";
+import { config } from "../../util/config";
+import Sidebar from "./sidebar";
+
+interface AnnotationLayerProps {
+  fieldWidth: number;
+  fieldHeight: number;
+  tool: FieldTool;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Distance between two field points (m) and the bearing from the first to the second,
+ * clockwise from the field's +y axis like the robot's azimuth (degrees)
+ *
+ * @param from Field point (m)
+ * @param to Field point (m)
+ * @returns { distance: number; bearing: number }
+ */
+const measureBetween = (from: Point, to: Point) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  return {
+    distance: Math.hypot(dx, dy),
+    bearing: Units.fmod(Units.rad2deg(Math.atan2(dx, dy)), 360),
+  };
+};
+
+/**
+ * Displays the pins and notes placed on the field and handles the field tools
+ *
+ * @param param0 Annotation layer properties
+ * @returns JSX.Element
+ */
+const AnnotationLayer = ({ fieldWidth, fieldHeight, tool }: AnnotationLayerProps) => {
+  const { pins, notes } = useAppSelector((state) => state.annotations);
+  const scale = useAppSelector((state) => state.app.scale);
+  const theme = useAppSelector((state) => state.settings.theme);
+  const upright = useUprightText();
+  const [measure, setMeasure] = useState<{ from: Point; to: Point }>(null);
+  const [draft, setDraft] = useState<number[]>(null);
+  const pressed = useRef<boolean>(false);
+  const dispatch = useAppDispatch();
+
+  /**
+   * A finished measurement stays until the next one or another tool is picked
+   */
+  useEffect(() => {
+    setMeasure(null);
+    setDraft(null);
+  }, [tool]);
+
+  /**
+   * Field point under the pointer, y is flipped to match the detections' map location
+   *
+   * @param e Pointer event
+   * @returns Point
+   */
+  const pointerOf = (e: KonvaEventObject<Event>): Point => {
+    const pointer = e.target.getStage().getRelativePointerPosition();
+    return pointer ? { x: pointer.x / scale, y: (pointer.y / scale) * -1 } : null;
+  };
+
+  const onPointerDown = (e: KonvaEventObject<PointerEvent>) => {
+    const point = pointerOf(e);
+    if (!point) {
+      return;
+    }
+    pressed.current = true;
+    if (tool === FieldTool.Measure) {
+      setMeasure({ from: point, to: point });
+    } else if (tool === FieldTool.Note) {
+      setDraft([point.x, point.y]);
+    }
+  };
+
+  const onPointerMove = (e: KonvaEventObject<PointerEvent>) => {
+    const point = pointerOf(e);
+    if (!pressed.current || !point) {
+      return;
+    }
+    if (tool === FieldTool.Measure && measure) {
+      setMeasure({ ...measure, to: point });
+    } else if (tool === FieldTool.Note && draft) {
+      const [x, y] = draft.slice(-2);
+      if (Math.hypot(point.x - x, point.y - y) >= config.annotations.noteSpacing) {
+        setDraft([...draft, point.x, point.y]);
+      }
+    }
+  };
+
+  const onPointerUp = () => {
+    pressed.current = false;
+    if (draft && draft.length >= 4) {
+      dispatch(addNote(draft));
+    }
+    setDraft(null);
+  };
+
+  const onPlacePin = (e: KonvaEventObject<Event>) => {
+    const point = pointerOf(e);
+    if (tool !== FieldTool.Pin || !point) {
+      return;
+    }
+    const label = prompt("Pin label");
+    if (label !== null) {
+      dispatch(addPin({ ...point, label: label.trim() || `Pin ${pins.length + 1}` }));
+    }
+  };
+
+  const onRemovePin = (e: KonvaEventObject<Event>, pin: FieldPin) => {
+    if (tool !== FieldTool.Pin) {
+      return;
+    }
+    // don't place another pin under this one
+    e.cancelBubble = true;
+    if (confirm(`Remove pin "${pin.label}"?`)) {
+      dispatch(removePin(pin.id));
+    }
+  };
+
+  const toStage = (points: number[]) =>
+    points.map((value, index) => value * scale * (index % 2 ? -1 : 1));
+  const measured = measure ? measureBetween(measure.from, measure.to) : null;
+
+  return (
+    <Layer>
+      {/* catches the pointer while a tool is picked, so the field doesn't pan */}
+      <Rect
+        x={-fieldWidth / 2}
+        y={-fieldHeight / 2}
+        width={fieldWidth}
+        height={fieldHeight}
+        fill="rgba(0, 0, 0, 0)"
+        listening={[FieldTool.Measure, FieldTool.Pin, FieldTool.Note].includes(tool)}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerLeave={onPointerUp}
+        onClick={onPlacePin}
+        onTap={onPlacePin}
+      />
+
+      {[...notes, ...(draft ? [{ id: 0, points: draft }] : [])].map((note) => (
+        <Line
+          key={note.id}
+          points={toStage(note.points)}
+          stroke={theme.control}
+          strokeWidth={config.annotations.noteWidth}
+          lineCap="round"
+          lineJoin="round"
+          tension={0.3}
+          listening={false}
+        />
+      ))}
+
+      {pins.map((pin) => (
+        <Group
+          {...upright}
+          key={pin.id}
+          x={pin.x * scale}
+          y={pin.y * scale * -1}
+          onClick={(e) => onRemovePin(e, pin)}
+          onTap={(e) => onRemovePin(e, pin)}
+        >
+          <Circle
+            radius={config.annotations.pinRadius}
+            fill={theme.control}
+            stroke={theme.font}
+            strokeWidth={1}
+          />
+          <Text
+            text={pin.label}
+            x={config.annotations.pinRadius + 2}
+            y={-config.annotations.pinRadius}
+            fill={theme.font}
+            fontSize={12}
+          />
+        </Group>
+      ))}
+
+      {measure ? (
+        <Group listening={false}>
+          <Sidebar
+            fieldHeight={fieldHeight}
+            fieldWidth={fieldWidth}
+            direction={Direction.X}
+            point={measure.to}
+          />
+          <Sidebar
+            fieldHeight={fieldHeight}
+            fieldWidth={fieldWidth}
+            direction={Direction.Y}
+            point={measure.to}
+          />
+          <Line
+            points={toStage([measure.from.x, measure.from.y, measure.to.x, measure.to.y])}
+            stroke={theme.font}
+            strokeWidth={2}
+            dash={[6, 4]}
+          />
+          {[measure.from, measure.to].map((end, index) => (
+            <Circle
+              key={index}
+              x={end.x * scale}
+              y={end.y * scale * -1}
+              radius={3}
+              fill={theme.font}
+            />
+          ))}
+          <Text
+            {...upright}
+            text={`${measured.distance.toFixed(2)} m  ${measured.bearing.toFixed(0)}°`}
+            x={((measure.from.x + measure.to.x) / 2) * scale}
+            y={((measure.from.y + measure.to.y) / 2) * scale * -1}
+            offsetX={-6}
+            offsetY={-6}
+            fill={theme.font}
+            fontSize={14}
+          />
+        </Group>
+      ) : null}
+    </Layer>
+  );
+};
+
+export default React.memo(AnnotationLayer);
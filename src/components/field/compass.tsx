@@ -1,39 +1,73 @@
 import React from "react";
-import { Image } from "react-konva";
+import { Circle, Group, Line, Text } from "react-konva";
 import { config } from "../../util/config";
-import { useAppSelector } from "../../state/hooks";
-import useImage from "use-image";
+import { useAppSelector, useUprightText } from "../../state/hooks";
+import { Units } from "../../lib/math";
 
 interface CompassProps {
   fieldHeight: number;
   fieldWidth: number;
 }
 
+/**
+ * Headings marked on the compass (degrees)
+ */
+const headings = [0, 45, 90, 135, 180, 225, 270, 315];
+
 /**
  * Compass for displaying robot azimuth
  *
+ * Drawn rather than a texture, so the marks follow a mirrored field while the numbers
+ * stay readable
+ *
  * @param param0 Compass properties
  * @returns JSX.Element
  */
-const Compass = ({ fieldHeight, fieldWidth }: CompassProps) => {
-  const [compass] = useImage(config.field.compass.texture);
+const Compass = ({ fieldWidth }: CompassProps) => {
   const position = useAppSelector((state) => state.data.response.position);
   const scale = useAppSelector((state) => state.app.scale);
+  const upright = useUprightText();
+
+  if (!position) {
+    return null;
+  }
+
+  const radius = (config.field.compass.scale * fieldWidth) / 2;
+  const tick = config.field.compass.lineScale * fieldWidth;
+  const fontSize = config.field.compass.numberScale * fieldWidth;
+  const labelRadius = radius - config.field.compass.numberOffset * fieldWidth;
 
   return (
-    position ?
-        <Image
-          alt=""
-          image={compass}
-          x={position.x * scale}
-          y={position.y * scale * -1}
-          width={config.field.compass.scale * fieldWidth}
-          height={config.field.compass.scale * fieldHeight}
-          offsetX={(config.field.compass.scale * fieldWidth) / 2}
-          offsetY={(config.field.compass.scale * fieldHeight) / 2}
-        />
-       : null
+    <Group x={position.x * scale} y={position.y * scale * -1}>
+      <Circle radius={radius} fill="#333333" />
+      {headings.map((heading) => {
+        // headings are clockwise from +y, which points up the stage
+        const dx = Math.sin(Units.deg2rad(heading));
+        const dy = -Math.cos(Units.deg2rad(heading));
+        return (
+          <React.Fragment key={heading}>
+            <Line
+              points={[dx * radius, dy * radius, dx * (radius - tick), dy * (radius - tick)]}
+              stroke="white"
+              strokeWidth={2}
+            />
+            <Text
+              {...upright}
+              x={dx * labelRadius}
+              y={dy * labelRadius}
+              width={fontSize * 3}
+              offsetX={(fontSize * 3) / 2}
+              offsetY={fontSize / 2}
+              align="center"
+              text={`${heading}`}
+              fontSize={fontSize}
+              fill="white"
+            />
+          </React.Fragment>
+        );
+      })}
+    </Group>
   );
 };
 
-export default Compass;
+export default React.memo(Compass);
@@ -1,10 +1,11 @@
 import React from "react";
 import { Layer, Image } from "react-konva";
-import { config } from "../../util/config";
-import { useAppSelector } from "../../state/hooks";
-import { Element } from "../../lib/types";
-import { v4 as uuidv4 } from "uuid";
-import useImage from "use-image";
+import {
+  useAppSelector,
+  useDetections,
+  useGameProfile,
+} from "../../state/hooks";
+import { useElementTextures } from "../../lib/hooks";
 
 interface DetectionLayerProps {
   fieldWidth: number;
@@ -18,51 +19,46 @@ interface DetectionLayerProps {
  * @returns JSX.Element
  */
 const DetectionLayer = ({ fieldWidth, fieldHeight }: DetectionLayerProps) => {
-  const detections = useAppSelector((state) => state.data.response.detections);
+  const detections = useDetections();
   const scale = useAppSelector((state) => state.app.scale);
-  const [redPickup] = useImage(config.elements.textures[Element.BallRed]);
-  const [bluePickup] = useImage(config.elements.textures[Element.BallBlue]);
+  const { elements } = useGameProfile();
+  const textures = useElementTextures(elements);
   void fieldWidth;
   void fieldHeight;
 
-  const getImage = (detectionClass: number) => {
-    switch (detectionClass) {
-      case Element.BallRed:
-        return redPickup;
-      case Element.BallBlue:
-        return bluePickup;
-      default:
-        break;
-    }
-  };
-
   return (
     <Layer>
       {detections ? (
         <>
-          {detections.map((detection) => {
-            const widthScale = scale * config.elements.size[detection.class].width * config.elements.size[detection.class].scale;
-            const heightScale = scale * config.elements.size[detection.class].height * config.elements.size[detection.class].scale;
-            return (
-              <>
-                {detection.depth !== -1 ? (
-                  <Image
-                    key={`${
-                      config.elements.label.text[detection.class]
-                    }-${uuidv4()}`}
-                    alt=""
-                    image={getImage(detection.class)}
-                    x={detection.mapLocation.x[0] * scale * config.elements.size[detection.class].scale}
-                    y={detection.mapLocation.y[0] * scale * -1 * config.elements.size[detection.class].scale}
-                    z={detection.depth}
-                    width={widthScale}
-                    height={heightScale}
-                    offsetX={widthScale / 2}
-                    offsetY={widthScale / 2}
-                  />
-                ) : null}
-              </>
-            );
+          {detections.map((detection, index) => {
+            const element = elements[detection.class];
+            // skip classes the game doesn't know and detections with fields dropped by the decoder
+            if (
+              !element ||
+              !detection.mapLocation?.x?.length ||
+              !detection.mapLocation?.y?.length
+            ) {
+              return null;
+            }
+            const widthScale = scale * element.width * element.scale;
+            const heightScale = scale * element.height * element.scale;
+            // raw detections carry no id, keying them by position lets Konva reuse the nodes between frames
+            const { id, stale } = detection;
+            return detection.depth !== -1 ? (
+              <Image
+                key={id ?? `${element.name}-${index}`}
+                opacity={stale ? 0.5 : 1}
+                alt=""
+                image={textures[detection.class]}
+                x={detection.mapLocation.x[0] * scale * element.scale}
+                y={detection.mapLocation.y[0] * scale * -1 * element.scale}
+                z={detection.depth}
+                width={widthScale}
+                height={heightScale}
+                offsetX={widthScale / 2}
+                offsetY={widthScale / 2}
+              />
+            ) : null;
           })}
         </>
       ) : null}
@@ -70,4 +66,4 @@ const DetectionLayer = ({ fieldWidth, fieldHeight }: DetectionLayerProps) => {
   );
 };
 
-export default DetectionLayer;
+export default React.memo(DetectionLayer);
@@ -0,0 +1,58 @@
+import React from "react";
+import { Layer, Rect, Text } from "react-konva";
+import {
+  useAppSelector,
+  useGameProfile,
+  useUprightText,
+} from "../../state/hooks";
+import { config } from "../../util/config";
+
+/**
+ * Draws the static objects of the selected game, e.g. goals, as labelled outlines
+ *
+ * @returns JSX.Element
+ */
+const FieldObjectsLayer = () => {
+  const { fieldObjects } = useGameProfile();
+  const scale = useAppSelector((state) => state.app.scale);
+  const upright = useUprightText();
+
+  return (
+    <Layer listening={false}>
+      {fieldObjects.map((object, index) => {
+        const width = object.width * scale;
+        const height = object.height * scale;
+        return (
+          <React.Fragment key={`${object.name}-${index}`}>
+            <Rect
+              x={object.x * scale}
+              y={object.y * scale * -1}
+              width={width}
+              height={height}
+              offsetX={width / 2}
+              offsetY={height / 2}
+              rotation={object.rotation ?? 0}
+              stroke={object.color}
+              strokeWidth={2}
+              dash={[6, 4]}
+            />
+            <Text
+              {...upright}
+              x={object.x * scale}
+              y={object.y * scale * -1}
+              offsetX={width / 2}
+              offsetY={6}
+              width={width}
+              align="center"
+              text={object.name}
+              fontSize={12}
+              fill={config.labelColor}
+            />
+          </React.Fragment>
+        );
+      })}
+    </Layer>
+  );
+};
+
+export default React.memo(FieldObjectsLayer);
@@ -0,0 +1,192 @@
+import React, { MutableRefObject, useEffect, useState } from "react";
+import Konva from "konva";
+import { Box, IconButton, Tooltip, Typography } from "@mui/material";
+import StraightenIcon from "@mui/icons-material/Straighten";
+import PlaceIcon from "@mui/icons-material/Place";
+import GestureIcon from "@mui/icons-material/Gesture";
+import DeleteSweepIcon from "@mui/icons-material/DeleteSweep";
+import NearMeIcon from "@mui/icons-material/NearMe";
+import NearMeDisabledIcon from "@mui/icons-material/NearMeDisabled";
+import {
+  useAppDispatch,
+  useAppSelector,
+  useSupportsCommand,
+} from "../../state/hooks";
+import { clearAnnotations } from "../../state/annotations-slice";
+import { clearGoal } from "../../state/connection";
+import { FieldTool, RequestResult } from "../../lib/types";
+import { commands } from "../../lib/commands";
+
+interface FieldToolbarProps {
+  tool: FieldTool;
+  /**
+   * Field stage, the toolbar shows the field coordinates of the cursor over it
+   */
+  stageRef: MutableRefObject<Konva.Stage>;
+  onToolChange: (tool: FieldTool) => void;
+  /**
+   * Reports a goal the brain failed to clear
+   */
+  onResult: (result: RequestResult) => void;
+}
+
+const tools = [
+  { tool: FieldTool.Measure, title: "Measure", Icon: StraightenIcon },
+  { tool: FieldTool.Pin, title: "Place Pin", Icon: PlaceIcon },
+  { tool: FieldTool.Note, title: "Draw Note", Icon: GestureIcon },
+];
+
+/**
+ * Field coordinates of the cursor, listens to the stage itself so moving the pointer
+ * only re-renders the readout
+ *
+ * @param param0 Stage to follow the cursor on
+ * @returns JSX.Element
+ */
+const CursorReadout = ({ stageRef }: { stageRef: MutableRefObject<Konva.Stage> }) => {
+  const theme = useAppSelector((state) => state.settings.theme);
+  const scale = useAppSelector((state) => state.app.scale);
+  const [cursor, setCursor] = useState<{ x: number; y: number }>(null);
+
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) {
+      return;
+    }
+    stage.on("pointermove.cursor", () => {
+      // field coordinates, y is flipped to match the detections' map location
+      const pointer = stage.getRelativePointerPosition();
+      setCursor(pointer ? { x: pointer.x / scale, y: (pointer.y / scale) * -1 } : null);
+    });
+    stage.on("pointerleave.cursor", () => setCursor(null));
+    return () => {
+      stage.off(".cursor");
+    };
+  }, [stageRef, scale]);
+
+  return cursor ? (
+    <Typography
+      variant="caption"
+      sx={{
+        position: "absolute",
+        bottom: 8,
+        left: 8,
+        px: 1,
+        borderRadius: 1,
+        color: theme.font,
+        bgcolor: theme.componentBackground,
+        zIndex: 1,
+        pointerEvents: "none",
+      }}
+    >
+      x: {cursor.x.toFixed(2)} m, y: {cursor.y.toFixed(2)} m
+    </Typography>
+  ) : null;
+};
+
+/**
+ * Buttons over the field for measuring and annotating, and the cursor's field coordinates
+ *
+ * @param param0 Field toolbar properties
+ * @returns JSX.Element
+ */
+const FieldToolbar = ({ tool, stageRef, onToolChange, onResult }: FieldToolbarProps) => {
+  const theme = useAppSelector((state) => state.settings.theme);
+  const hasAnnotations = useAppSelector(
+    (state) => state.annotations.pins.length + state.annotations.notes.length > 0
+  );
+  // the brain may be driving to a goal the dashboard doesn't know about, so clearing is
+  // allowed whenever the socket is open
+  const socketConnected = useAppSelector((state) => state.data.dataServiceConnected);
+  const supportsSetGoal = useSupportsCommand(commands.gSetGoal);
+  const supportsClearGoal = useSupportsCommand(commands.gClearGoal);
+  const dispatch = useAppDispatch();
+  const buttonSx = {
+    color: theme.font,
+    bgcolor: theme.componentBackground,
+    "&:hover": { bgcolor: theme.controlHover },
+  };
+  const activeSx = { ...buttonSx, bgcolor: theme.control };
+
+  return (
+    <>
+      <Box
+        sx={{
+          position: "absolute",
+          top: 8,
+          left: 8,
+          display: "flex",
+          flexDirection: "column",
+          gap: 0.5,
+          zIndex: 1,
+        }}
+      >
+        {tools.map(({ tool: option, title, Icon }) => (
+          <Tooltip key={option} title={title} placement="right">
+            <IconButton
+              size="small"
+              sx={tool === option ? activeSx : buttonSx}
+              onClick={() => onToolChange(tool === option ? FieldTool.None : option)}
+            >
+              <Icon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        ))}
+        <Tooltip title="Clear Pins and Notes" placement="right">
+          <span>
+            <IconButton
+              size="small"
+              sx={buttonSx}
+              disabled={!hasAnnotations}
+              onClick={() => {
+                if (confirm("Clear every pin and note?")) {
+                  dispatch(clearAnnotations());
+                }
+              }}
+            >
+              <DeleteSweepIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Set Navigation Goal" placement="right">
+          <span>
+            <IconButton
+              size="small"
+              sx={tool === FieldTool.Goal ? activeSx : buttonSx}
+              disabled={!supportsSetGoal}
+              onClick={() =>
+                onToolChange(tool === FieldTool.Goal ? FieldTool.None : FieldTool.Goal)
+              }
+            >
+              <NearMeIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Clear Navigation Goal" placement="right">
+          <span>
+            <IconButton
+              size="small"
+              sx={buttonSx}
+              disabled={!socketConnected || !supportsClearGoal}
+              onClick={() =>
+                dispatch(clearGoal())
+                  .unwrap()
+                  .catch((ex) =>
+                    onResult({
+                      severity: "error",
+                      message: `Failed to clear the goal - ${ex.message}`,
+                    })
+                  )
+              }
+            >
+              <NearMeDisabledIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+      <CursorReadout stageRef={stageRef} />
+    </>
+  );
+};
+
+export default React.memo(FieldToolbar);
@@ -0,0 +1,117 @@
+import React from "react";
+import { Box, IconButton, Tooltip } from "@mui/material";
+import ZoomInIcon from "@mui/icons-material/ZoomIn";
+import ZoomOutIcon from "@mui/icons-material/ZoomOut";
+import CenterFocusStrongIcon from "@mui/icons-material/CenterFocusStrong";
+import MyLocationIcon from "@mui/icons-material/MyLocation";
+import ScreenRotationIcon from "@mui/icons-material/ScreenRotation";
+import { useAppSelector } from "../../state/hooks";
+import { config } from "../../util/config";
+
+interface FieldViewControlsProps {
+  zoom: number;
+  follow: boolean;
+  rotateWithRobot: boolean;
+  canFollow: boolean;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onReset: () => void;
+  onFollowChange: (follow: boolean) => void;
+  onRotateChange: (rotate: boolean) => void;
+}
+
+/**
+ * Buttons over the field for zooming, resetting the view and following the robot
+ *
+ * @param param0 Field view control properties
+ * @returns JSX.Element
+ */
+const FieldViewControls = ({
+  zoom,
+  follow,
+  rotateWithRobot,
+  canFollow,
+  onZoomIn,
+  onZoomOut,
+  onReset,
+  onFollowChange,
+  onRotateChange,
+}: FieldViewControlsProps) => {
+  const theme = useAppSelector((state) => state.settings.theme);
+  const buttonSx = {
+    color: theme.font,
+    bgcolor: theme.componentBackground,
+    "&:hover": { bgcolor: theme.controlHover },
+  };
+  const activeSx = { ...buttonSx, bgcolor: theme.control };
+
+  return (
+    <Box
+      sx={{
+        position: "absolute",
+        top: 8,
+        right: 8,
+        display: "flex",
+        flexDirection: "column",
+        gap: 0.5,
+        zIndex: 1,
+      }}
+    >
+      <Tooltip title="Zoom In" placement="left">
+        <span>
+          <IconButton
+            size="small"
+            sx={buttonSx}
+            disabled={zoom >= config.field.zoom.max}
+            onClick={onZoomIn}
+          >
+            <ZoomInIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Zoom Out" placement="left">
+        <span>
+          <IconButton
+            size="small"
+            sx={buttonSx}
+            disabled={zoom <= config.field.zoom.min}
+            onClick={onZoomOut}
+          >
+            <ZoomOutIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Reset View" placement="left">
+        <IconButton size="small" sx={buttonSx} onClick={onReset}>
+          <CenterFocusStrongIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="Follow Robot" placement="left">
+        <span>
+          <IconButton
+            size="small"
+            sx={follow ? activeSx : buttonSx}
+            disabled={!canFollow}
+            onClick={() => onFollowChange(!follow)}
+          >
+            <MyLocationIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Rotate With Robot" placement="left">
+        <span>
+          <IconButton
+            size="small"
+            sx={rotateWithRobot ? activeSx : buttonSx}
+            disabled={!follow}
+            onClick={() => onRotateChange(!rotateWithRobot)}
+          >
+            <ScreenRotationIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+    </Box>
+  );
+};
+
+export default React.memo(FieldViewControls);
@@ -1,19 +1,36 @@
-import React, { useEffect, useRef } from "react";
-import { Layer, Stage } from "react-konva";
-import { images } from "../../util/images";
+import React, { useEffect, useRef, useState } from "react";
+import { Image, Layer, Stage } from "react-konva";
+import Konva from "konva";
+import useImage from "use-image";
 import useWindowDimensions from "../../lib/hooks";
 import { Box } from "@mui/system";
-import { useAppDispatch, useAppSelector } from "../../state/hooks";
+import { Alert, Snackbar } from "@mui/material";
+import {
+  useAppDispatch,
+  useAppSelector,
+  useDataSubscription,
+  useGameProfile,
+  useSupportsCommand,
+} from "../../state/hooks";
 import DetectionLayer from "./detection-layer";
+import FieldObjectsLayer from "./field-objects-layer";
 import Robot from "./robot";
 import Compass from "./compass";
 import Fov from "./fov";
 import Fog from "./fog";
 import Track from "./track";
-import { Direction } from "../../lib/types";
-import { setScale } from "../../state/app-slice";
-import { config } from "../../util/config";
+import { Direction, FieldTool, RequestResult } from "../../lib/types";
+import { setScale, setViewOrientation } from "../../state/app-slice";
 import GridCostLayer from "./grid-cost-layer";
+import TrailLayer from "./trail-layer";
+import HeatmapLayer from "./heatmap-layer";
+import MemoryLayer from "./memory-layer";
+import FieldViewControls from "./field-view-controls";
+import FieldToolbar from "./field-toolbar";
+import AnnotationLayer from "./annotation-layer";
+import GoalLayer from "./goal-layer";
+import useFieldView from "../../lib/use-field-view";
+import { commands } from "../../lib/commands";
 
 /**
  * Displays a top down view of the game field with visuals for detected elements and moving robot
@@ -23,31 +40,68 @@ import GridCostLayer from "./grid-cost-layer";
 const Field = () => {
   const ref = useRef();
   const { height } = useWindowDimensions();
-  const response = useAppSelector((state) => state.data.response);
+  const map = useAppSelector((state) => state.data.response?.map);
+  const hasPosition = useAppSelector((state) =>
+    Boolean(state.data.response?.position)
+  );
   const showCompass = useAppSelector((state) => state.settings.showCompass);
   const showXYTracks = useAppSelector((state) => state.settings.showXYTracks);
   const showFog = useAppSelector((state) => state.settings.showFog);
+  const showTrail = useAppSelector((state) => state.settings.showTrail);
+  const showHeatmap = useAppSelector((state) => state.settings.showHeatmap);
+  const showMemory = useAppSelector((state) => state.settings.showMemory);
+  const scale = useAppSelector((state) => state.app.scale);
+  const orientation = useAppSelector((state) => state.settings.fieldOrientation);
+  const [follow, setFollow] = useState<boolean>(false);
+  const [rotateWithRobot, setRotateWithRobot] = useState<boolean>(false);
+  const [tool, setTool] = useState<FieldTool>(FieldTool.None);
+  const stageRef = useRef<Konva.Stage>(null);
+  const [goalResult, setGoalResult] = useState<RequestResult>(null);
+  // only re-render on every position while the view follows the robot
+  const followed = useAppSelector((state) =>
+    follow ? state.data.response?.position : null
+  );
+  const supportsMap = useSupportsCommand(commands.gMap);
+  const game = useGameProfile();
+  const [fieldImage] = useImage(game.field.texture);
   const dispatch = useAppDispatch();
+  useDataSubscription(["pos", "detect", "map"]);
+  const fieldWidth = ref.current ? ref.current["clientWidth"] : 1;
+  const fieldHeight = ref.current ? ref.current["clientHeight"] : 1;
   const hasGrid =
-    response &&
-    response.map &&
-    response.map.size &&
-    response.map.size.width &&
-    response.map.size.height &&
-    response.map.tiles &&
-    response.map.tiles.length ===
-      response.map.size.width * response.map.size.height;
+    supportsMap &&
+    map &&
+    map.size &&
+    map.size.width &&
+    map.size.height &&
+    map.tiles &&
+    map.tiles.length === map.size.width * map.size.height;
+  const view = useFieldView(
+    fieldWidth,
+    fieldHeight,
+    followed
+      ? {
+          x: followed.x * scale,
+          y: followed.y * scale * -1,
+          heading: rotateWithRobot ? followed.azimuth ?? 0 : null,
+        }
+      : null,
+    orientation
+  );
 
   /**
    * Update the field scale every time the field image is resized
    */
   useEffect(() => {
-    dispatch(
-      setScale(
-        (ref.current ? ref.current["clientWidth"] : 1) / config.field.dimension
-      )
-    );
-  }, [ref, ref.current ? ref.current["clientWidth"] : 1]);
+    dispatch(setScale(fieldWidth / game.field.dimension));
+  }, [ref, fieldWidth, game]);
+
+  /**
+   * Let text on the field turn back upright whenever the view turns
+   */
+  useEffect(() => {
+    dispatch(setViewOrientation(view.orientation));
+  }, [view.orientation.rotation, view.orientation.mirror]);
 
   return (
     <Box>
@@ -55,77 +109,77 @@ const Field = () => {
         style={{
           display: "flex",
           justifyContent: "center",
+          position: "relative",
         }}
       >
+        {/* sizes the stage, the field itself is drawn on the stage so it zooms with the layers */}
         <img
           alt="field-img"
           id="field-img"
-          src={images.field}
+          src={game.field.texture}
           width="100%"
           height="100%"
           style={{
             maxHeight: height - 50,
             maxWidth: height - 50,
+            visibility: "hidden",
           }}
           ref={ref}
         />
         <Stage
-          height={ref.current ? ref.current["clientHeight"] : 1}
-          width={ref.current ? ref.current["clientWidth"] : 1}
+          height={fieldHeight}
+          width={fieldWidth}
           style={{
             position: "absolute",
           }}
-          x={(ref.current ? ref.current["clientWidth"] : 1) / 2}
-          y={(ref.current ? ref.current["clientHeight"] : 1) / 2}
+          {...view.stageProps}
+          draggable={view.stageProps.draggable && tool === FieldTool.None}
+          ref={stageRef}
         >
           <>
+            <Layer listening={false}>
+              <Image
+                image={fieldImage}
+                x={-fieldWidth / 2}
+                y={-fieldHeight / 2}
+                width={fieldWidth}
+                height={fieldHeight}
+              />
+            </Layer>
             {hasGrid ? <GridCostLayer /> : null}
-            {response && response.position ? (
+            {game.fieldObjects.length ? <FieldObjectsLayer /> : null}
+            {showHeatmap === "true" ? <HeatmapLayer /> : null}
+            {hasPosition ? (
               <>
-                <Layer>
-                  <>
-                    {/* fog and fov */}
-                    {showFog === "true" ? (
-                      <>
-                        {/* fog */}
-                        <Fog
-                          fieldHeight={
-                            ref.current ? ref.current["clientHeight"] : 1
-                          }
-                          fieldWidth={
-                            ref.current ? ref.current["clientWidth"] : 1
-                          }
-                        />
-                        {/* fov */}
-                        <Fov
-                          fieldHeight={
-                            ref.current ? ref.current["clientHeight"] : 1
-                          }
-                        />
-                      </>
-                    ) : null}
+                {/* elements out of view, under the fog */}
+                {showMemory === "true" ? <MemoryLayer /> : null}
+
+                {/* fog and fov */}
+                {showFog === "true" ? (
+                  <Layer listening={false}>
+                    <Fog fieldHeight={fieldHeight} fieldWidth={fieldWidth} />
+                    <Fov fieldHeight={fieldHeight} />
+                  </Layer>
+                ) : null}
 
+                {/* breadcrumb trail */}
+                {showTrail === "true" ? <TrailLayer /> : null}
+
+                <Layer listening={false}>
+                  <>
                     {/* xy tracks */}
                     {showXYTracks === "true" ? (
                       <>
                         {/* y coordinates */}
                         <Track
-                          fieldHeight={
-                            ref.current ? ref.current["clientHeight"] : 1
-                          }
-                          fieldWidth={
-                            ref.current ? ref.current["clientWidth"] : 1
-                          }
+                          fieldHeight={fieldHeight}
+                          fieldWidth={fieldWidth}
                           direction={Direction.Y}
                         />
                         {/* x coordinates */}
                         <Track
-                          fieldHeight={
-                            ref.current ? ref.current["clientHeight"] : 1
-                          }
-                          fieldWidth={
-                            ref.current ? ref.current["clientWidth"] : 1
-                          }
+                          fieldHeight={fieldHeight}
+                          fieldWidth={fieldWidth}
                           direction={Direction.X}
                         />
                       </>
@@ -133,14 +187,7 @@ const Field = () => {
 
                     {/* compass */}
                     {showCompass === "true" ? (
-                      <Compass
-                        fieldHeight={
-                          ref.current ? ref.current["clientHeight"] : 1
-                        }
-                        fieldWidth={
-                          ref.current ? ref.current["clientWidth"] : 1
-                        }
-                      />
+                      <Compass fieldHeight={fieldHeight} fieldWidth={fieldWidth} />
                     ) : null}
 
                     {/* robot */}
@@ -149,14 +196,56 @@ const Field = () => {
                 </Layer>
 
                 {/* Detections */}
-                <DetectionLayer
-                  fieldWidth={ref.current ? ref.current["clientWidth"] : 1}
-                  fieldHeight={ref.current ? ref.current["clientHeight"] : 1}
-                />
+                <DetectionLayer fieldWidth={fieldWidth} fieldHeight={fieldHeight} />
               </>
             ) : null}
+
+            {/* navigation goal */}
+            <GoalLayer
+              fieldWidth={fieldWidth}
+              fieldHeight={fieldHeight}
+              tool={tool}
+              onResult={setGoalResult}
+            />
+
+            {/* pins, notes and measurements */}
+            <AnnotationLayer fieldWidth={fieldWidth} fieldHeight={fieldHeight} tool={tool} />
           </>
         </Stage>
+        <FieldToolbar
+          tool={tool}
+          stageRef={stageRef}
+          onToolChange={setTool}
+          onResult={setGoalResult}
+        />
+        <FieldViewControls
+          zoom={view.zoom}
+          follow={follow}
+          rotateWithRobot={rotateWithRobot}
+          canFollow={hasPosition}
+          onZoomIn={view.zoomIn}
+          onZoomOut={view.zoomOut}
+          onReset={() => {
+            setFollow(false);
+            view.reset();
+          }}
+          onFollowChange={setFollow}
+          onRotateChange={setRotateWithRobot}
+        />
+        <Snackbar
+          open={goalResult !== null}
+          autoHideDuration={4000}
+          onClose={() => setGoalResult(null)}
+          anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+        >
+          <Alert
+            severity={goalResult ? goalResult.severity : "info"}
+            variant="filled"
+            onClose={() => setGoalResult(null)}
+          >
+            {goalResult ? goalResult.message : ""}
+          </Alert>
+        </Snackbar>
       </div>
     </Box>
   );
@@ -26,4 +26,4 @@ const Fog = ({ fieldHeight, fieldWidth }: FogProps) => {
   );
 };
 
-export default Fog;
+export default React.memo(Fog);
@@ -34,4 +34,4 @@ const Fov = ({ fieldHeight }: FovProps) => {
   );
 };
 
-export default Fov;
+export default React.memo(Fov);
@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Arrow, Circle, Group, Layer, Line, Rect, Text } from "react-konva";
+import { KonvaEventObject } from "konva/lib/Node";
+import {
+  useAppDispatch,
+  useAppSelector,
+  useUprightText,
+} from "../../state/hooks";
+import { sendGoal } from "../../state/connection";
+import { Goal } from "../../lib/data-response";
+import { FieldTool, RequestResult } from "../../lib/types";
+import { Units } from "../../lib/math";
+import { config } from "../../util/config";
+
+interface GoalLayerProps {
+  fieldWidth: number;
+  fieldHeight: number;
+  tool: FieldTool;
+  /**
+   * Reports a goal the brain didn't accept
+   */
+  onResult: (result: RequestResult) => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Bearing from one field point to another, clockwise from the field's +y axis (degrees)
+ *
+ * @param from Field point or pose (m)
+ * @param to Field point or pose (m)
+ * @returns number
+ */
+const bearingOf = (from: Goal | Point, to: Goal | Point): number =>
+  Units.fmod(Units.rad2deg(Math.atan2(to.x - from.x, to.y - from.y)), 360);
+
+/**
+ * Displays the navigation goal with a line from the robot, and sets a new goal by
+ * clicking on the field or dragging out its heading while the goal tool is picked
+ *
+ * @param param0 Goal layer properties
+ * @returns JSX.Element
+ */
+const GoalLayer = ({ fieldWidth, fieldHeight, tool, onResult }: GoalLayerProps) => {
+  const goal = useAppSelector((state) => state.data.goal);
+  const position = useAppSelector((state) =>
+    state.data.goal || tool === FieldTool.Goal ? state.data.response?.position : null
+  );
+  const scale = useAppSelector((state) => state.app.scale);
+  const upright = useUprightText();
+  const [draft, setDraft] = useState<{ from: Point; to: Point }>(null);
+  const pressed = useRef<boolean>(false);
+  const dispatch = useAppDispatch();
+
+  useEffect(() => {
+    setDraft(null);
+  }, [tool]);
+
+  /**
+   * Field point under the pointer, y is flipped to match the detections' map location
+   *
+   * @param e Pointer event
+   * @returns Point
+   */
+  const pointerOf = (e: KonvaEventObject<Event>): Point => {
+    const pointer = e.target.getStage().getRelativePointerPosition();
+    return pointer ? { x: pointer.x / scale, y: (pointer.y / scale) * -1 } : null;
+  };
+
+  /**
+   * Heading of a drafted goal: the drag direction, or facing away from the robot for a click
+   *
+   * @param from Where the goal was pressed (m)
+   * @param to Where the pointer is now (m)
+   * @returns number
+   */
+  const headingOf = (from: Point, to: Point): number => {
+    if (Math.hypot(to.x - from.x, to.y - from.y) >= config.goal.minDrag) {
+      return bearingOf(from, to);
+    }
+    return position ? bearingOf(position, from) : 0;
+  };
+
+  const onPointerDown = (e: KonvaEventObject<PointerEvent>) => {
+    const point = pointerOf(e);
+    if (point) {
+      pressed.current = true;
+      setDraft({ from: point, to: point });
+    }
+  };
+
+  const onPointerMove = (e: KonvaEventObject<PointerEvent>) => {
+    const point = pointerOf(e);
+    if (pressed.current && point && draft) {
+      setDraft({ ...draft, to: point });
+    }
+  };
+
+  const onPointerUp = () => {
+    if (!pressed.current || !draft) {
+      return;
+    }
+    pressed.current = false;
+    const next: Goal = {
+      x: draft.from.x,
+      y: draft.from.y,
+      heading: headingOf(draft.from, draft.to),
+    };
+    setDraft(null);
+    dispatch(sendGoal(next))
+      .unwrap()
+      .catch((ex) =>
+        onResult({ severity: "error", message: `Failed to send the goal - ${ex.message}` })
+      );
+  };
+
+  /**
+   * Leaving the field drops the draft, only releasing the pointer sends a goal
+   */
+  const onPointerLeave = () => {
+    pressed.current = false;
+    setDraft(null);
+  };
+
+  /**
+   * Goal marker: a circle at the target with an arrow along the heading
+   *
+   * @param target Goal to draw
+   * @param opacity Opacity of the marker
+   * @returns JSX.Element
+   */
+  const marker = (target: Goal, opacity: number) => (
+    <Group
+      x={target.x * scale}
+      y={target.y * scale * -1}
+      rotation={target.heading ?? 0}
+      opacity={opacity}
+    >
+      <Circle radius={8} stroke={config.goal.color} strokeWidth={3} />
+      <Arrow
+        points={[0, 0, 0, -config.goal.arrowLength * scale]}
+        stroke={config.goal.color}
+        fill={config.goal.color}
+        strokeWidth={3}
+        pointerLength={8}
+        pointerWidth={8}
+      />
+    </Group>
+  );
+
+  const hasGoal = goal && Number.isFinite(goal.x) && Number.isFinite(goal.y);
+  const hasPosition =
+    position && Number.isFinite(position.x) && Number.isFinite(position.y);
+
+  return (
+    <Layer>
+      {/* catches the pointer while the goal tool is picked, so the field doesn't pan */}
+      <Rect
+        x={-fieldWidth / 2}
+        y={-fieldHeight / 2}
+        width={fieldWidth}
+        height={fieldHeight}
+        fill="rgba(0, 0, 0, 0)"
+        listening={tool === FieldTool.Goal}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerLeave={onPointerLeave}
+      />
+
+      {hasGoal ? (
+        <Group listening={false}>
+          {hasPosition ? (
+            <>
+              <Line
+                points={[
+                  position.x * scale,
+                  position.y * scale * -1,
+                  goal.x * scale,
+                  goal.y * scale * -1,
+                ]}
+                stroke={config.goal.color}
+                strokeWidth={2}
+                dash={[8, 6]}
+              />
+              <Text
+                {...upright}
+                text={`${Math.hypot(goal.x - position.x, goal.y - position.y).toFixed(
+                  2
+                )} m  ${bearingOf(position, goal).toFixed(0)}°`}
+                x={((position.x + goal.x) / 2) * scale}
+                y={((position.y + goal.y) / 2) * scale * -1}
+                offsetX={-6}
+                offsetY={-6}
+                fill={config.goal.color}
+                fontSize={14}
+              />
+            </>
+          ) : null}
+          {marker(goal, 1)}
+        </Group>
+      ) : null}
+
+      {draft ? (
+        <Group listening={false}>
+          {marker(
+            { ...draft.from, heading: headingOf(draft.from, draft.to) },
+            0.6
+          )}
+        </Group>
+      ) : null}
+    </Layer>
+  );
+};
+
+export default React.memo(GoalLayer);
@@ -1,7 +1,6 @@
 import React, { useMemo } from "react";
 import { Layer, Rect } from "react-konva";
-import { useAppSelector } from "../../state/hooks";
-import { config } from "../../util/config";
+import { useAppSelector, useGameProfile } from "../../state/hooks";
 import { GridMap } from "../../lib/data-response";
 
 interface TileRect {
@@ -27,6 +26,7 @@ const GridCostLayer = () => {
     (state) => state.data.response?.map ?? null
   );
   const scale = useAppSelector((state) => state.app.scale);
+  const { field } = useGameProfile();
 
   const tiles = useMemo(() => {
     if (
@@ -42,7 +42,7 @@ const GridCostLayer = () => {
     }
 
     const { width: gridWidth, height: gridHeight } = map.size;
-    const fieldSizePx = config.field.dimension * scale;
+    const fieldSizePx = field.dimension * scale;
     const cellWidthPx = fieldSizePx / gridWidth;
     const cellHeightPx = fieldSizePx / gridHeight;
     const halfField = fieldSizePx / 2;
@@ -82,7 +82,7 @@ const GridCostLayer = () => {
     });
 
     return shapes;
-  }, [map, scale]);
+  }, [map, scale, field]);
 
   if (!tiles.length) {
     return null;
@@ -107,4 +107,4 @@ const GridCostLayer = () => {
   );
 };
 
-export default GridCostLayer;
+export default React.memo(GridCostLayer);
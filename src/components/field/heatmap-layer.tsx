@@ -0,0 +1,64 @@
+import React, { useMemo } from "react";
+import { Image, Layer } from "react-konva";
+import { useAppSelector } from "../../state/hooks";
+import { history, selectCoverageVersion } from "../../state/history";
+import { config } from "../../util/config";
+
+/**
+ * Draws how often the robot was seen in each cell of the field this session,
+ * from blue for rarely to red for the most visited cells
+ *
+ * @returns JSX.Element
+ */
+const HeatmapLayer = () => {
+  const coverageVersion = useAppSelector(selectCoverageVersion);
+  const scale = useAppSelector((state) => state.app.scale);
+
+  /**
+   * Paints one pixel per cell, Konva stretches the image over the visited area
+   */
+  const heatmap = useMemo(() => {
+    const cells = history.coverage.cells();
+    if (!cells.length) {
+      return null;
+    }
+    const minI = Math.min(...cells.map((cell) => cell.i));
+    const maxI = Math.max(...cells.map((cell) => cell.i));
+    const minJ = Math.min(...cells.map((cell) => cell.j));
+    const maxJ = Math.max(...cells.map((cell) => cell.j));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = maxI - minI + 1;
+    canvas.height = maxJ - minJ + 1;
+    const context = canvas.getContext("2d");
+    cells.forEach((cell) => {
+      const heat = cell.count / history.coverage.max;
+      context.fillStyle = `hsla(${240 * (1 - heat)}, 90%, 50%, ${0.35 + 0.65 * heat})`;
+      // field y points up, canvas rows go down
+      context.fillRect(cell.i - minI, maxJ - cell.j, 1, 1);
+    });
+
+    return { canvas, minI, maxJ, columns: canvas.width, rows: canvas.height };
+  }, [coverageVersion]);
+
+  if (!heatmap) {
+    return null;
+  }
+
+  const cellSize = history.coverage.cellSize * scale;
+
+  return (
+    <Layer listening={false} imageSmoothingEnabled={false}>
+      <Image
+        image={heatmap.canvas}
+        x={heatmap.minI * cellSize}
+        y={-(heatmap.maxJ + 1) * cellSize}
+        width={heatmap.columns * cellSize}
+        height={heatmap.rows * cellSize}
+        opacity={config.heatmap.opacity}
+      />
+    </Layer>
+  );
+};
+
+export default React.memo(HeatmapLayer);
@@ -0,0 +1,51 @@
+import React from "react";
+import { Image, Layer } from "react-konva";
+import { useAppSelector, useGameProfile } from "../../state/hooks";
+import { selectRememberedElements } from "../../state/history";
+import { useElementTextures } from "../../lib/hooks";
+import { config } from "../../util/config";
+
+/**
+ * Draws elements where they were last seen once they leave the camera's view,
+ * fading as the memory gets older
+ *
+ * @returns JSX.Element
+ */
+const MemoryLayer = () => {
+  const remembered = useAppSelector(selectRememberedElements);
+  const scale = useAppSelector((state) => state.app.scale);
+  const { elements } = useGameProfile();
+  const textures = useElementTextures(elements);
+  const now = Date.now();
+
+  return (
+    <Layer listening={false}>
+      {remembered.map((memory, index) => {
+        const element = elements[memory.class];
+        if (!element) {
+          return null;
+        }
+        const age = Math.min(1, (now - memory.lastSeen) / (config.memory.maxAge * 1000));
+        const width = scale * element.width * element.scale;
+        const height = scale * element.height * element.scale;
+        // placed like the live detections so a ghost stays where its element was drawn
+        return (
+          <Image
+            key={`${memory.class}-${index}`}
+            alt=""
+            image={textures[memory.class]}
+            x={memory.x * scale * element.scale}
+            y={memory.y * scale * -1 * element.scale}
+            width={width}
+            height={height}
+            offsetX={width / 2}
+            offsetY={height / 2}
+            opacity={0.6 - 0.45 * age}
+          />
+        );
+      })}
+    </Layer>
+  );
+};
+
+export default React.memo(MemoryLayer);
@@ -33,4 +33,4 @@ const Robot = () => {
   );
 };
 
-export default Robot;
+export default React.memo(Robot);
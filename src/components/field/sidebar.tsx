@@ -10,16 +10,19 @@ interface SidebarProps {
   fieldHeight: number;
   fieldWidth: number;
   direction: Direction;
+  /**
+   * Point marked on the rulers, from the field center (m)
+   */
+  point: { x: number; y: number };
 }
 
 /**
- * Displays a vertical or horizontal ruler to show the robot's location
+ * Displays a vertical or horizontal ruler marking a point on the field
  *
  * @param param0 Sidebar properties
  * @returns JSX.Element
  */
-const Sidebar = ({ fieldHeight, fieldWidth, direction }: SidebarProps) => {
-  const position = useAppSelector((state) => state.data.response.position);
+const Sidebar = ({ fieldHeight, fieldWidth, direction, point }: SidebarProps) => {
   const theme = useAppSelector((state) => state.settings.theme);
   const scale = useAppSelector((state) => state.app.scale);
   const [ruler] = useImage(images.map.ruler);
@@ -53,7 +56,7 @@ const Sidebar = ({ fieldHeight, fieldWidth, direction }: SidebarProps) => {
             height={fieldHeight * 0.75}
           />
           <Arrow
-            x={position.x * scale}
+            x={point.x * scale}
             y={
               0 -
               (fieldHeight / 2) * 0.75 -
@@ -99,7 +102,7 @@ const Sidebar = ({ fieldHeight, fieldWidth, direction }: SidebarProps) => {
               (fieldWidth / 2) * 0.75 -
               config.field.ruler.xySidebarArrowOffset * (fieldWidth / 2)
             }
-            y={position.y * scale}
+            y={point.y * scale * -1}
             points={[]}
             fill={theme.control}
             pointerWidth={20}
@@ -112,4 +115,4 @@ const Sidebar = ({ fieldHeight, fieldWidth, direction }: SidebarProps) => {
   );
 };
 
-export default Sidebar;
+export default React.memo(Sidebar);
@@ -55,4 +55,4 @@ const Track = ({ fieldHeight, fieldWidth, direction }: TrackProps) => {
   );
 };
 
-export default Track;
+export default React.memo(Track);
@@ -0,0 +1,116 @@
+import React, { useMemo } from "react";
+import { Layer, Line } from "react-konva";
+import { useAppSelector } from "../../state/hooks";
+import { selectPositionHistory } from "../../state/history";
+import { Position } from "../../lib/data-response";
+import { Sample } from "../../lib/samples";
+import { TrailColoring } from "../../lib/types";
+import { config } from "../../util/config";
+
+interface TrailSegment {
+  /**
+   * Flat list of x, y field coordinates (m)
+   */
+  points: number[];
+  color: string;
+  opacity: number;
+}
+
+/**
+ * Splits the recent positions into segments that fade with age and are colored
+ * by speed or age
+ *
+ * @param samples Positions, oldest first
+ * @param coloring How to color the segments
+ * @param color Color used when the trail isn't colored
+ * @returns TrailSegment[]
+ */
+const toSegments = (
+  samples: Sample<Position>[],
+  coloring: TrailColoring,
+  color: string
+): TrailSegment[] => {
+  const valid = samples.filter(
+    (sample) => Number.isFinite(sample.value.x) && Number.isFinite(sample.value.y)
+  );
+  if (valid.length < 2) {
+    return [];
+  }
+
+  const latest = valid[valid.length - 1].t;
+  const span = config.trail.seconds * 1000;
+  const size = Math.max(1, Math.ceil((valid.length - 1) / config.trail.segments));
+  const segments: TrailSegment[] = [];
+
+  for (let start = 0; start < valid.length - 1; start += size) {
+    // segments share their end point so the trail has no gaps
+    const chunk = valid.slice(start, start + size + 1);
+    const first = chunk[0];
+    const last = chunk[chunk.length - 1];
+    const age = Math.min(1, (latest - (first.t + last.t) / 2) / span);
+
+    let distance = 0;
+    for (let i = 1; i < chunk.length; i++) {
+      distance += Math.hypot(
+        chunk[i].value.x - chunk[i - 1].value.x,
+        chunk[i].value.y - chunk[i - 1].value.y
+      );
+    }
+    const seconds = (last.t - first.t) / 1000;
+    const speed = seconds > 0 ? distance / seconds : 0;
+
+    let segmentColor = color;
+    if (coloring === TrailColoring.Speed) {
+      // green when slow, red at the max speed
+      segmentColor = `hsl(${120 * (1 - Math.min(1, speed / config.trail.maxSpeed))}, 90%, 50%)`;
+    } else if (coloring === TrailColoring.Time) {
+      // red for the newest positions, blue for the oldest
+      segmentColor = `hsl(${220 * age}, 90%, 55%)`;
+    }
+
+    segments.push({
+      points: chunk.flatMap((sample) => [sample.value.x, sample.value.y]),
+      color: segmentColor,
+      opacity: 1 - 0.85 * age,
+    });
+  }
+  return segments;
+};
+
+/**
+ * Draws the path the robot drove over the last seconds as a fading line
+ *
+ * @returns JSX.Element
+ */
+const TrailLayer = () => {
+  const positions = useAppSelector(selectPositionHistory(config.trail.seconds));
+  const scale = useAppSelector((state) => state.app.scale);
+  const coloring = useAppSelector((state) => state.settings.trailColoring);
+  const theme = useAppSelector((state) => state.settings.theme);
+
+  const segments = useMemo(
+    () => toSegments(positions, coloring, theme.control),
+    [positions, coloring, theme]
+  );
+
+  return (
+    <Layer listening={false}>
+      {segments.map((segment, index) => (
+        <Line
+          key={index}
+          points={segment.points.map((value, i) =>
+            i % 2 === 0 ? value * scale : value * scale * -1
+          )}
+          stroke={segment.color}
+          opacity={segment.opacity}
+          strokeWidth={config.trail.width}
+          strokeScaleEnabled={false}
+          lineCap="round"
+          lineJoin="round"
+        />
+      ))}
+    </Layer>
+  );
+};
+
+export default React.memo(TrailLayer);
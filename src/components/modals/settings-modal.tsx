@@ -12,19 +12,42 @@ import {
   Button,
   TextField,
   styled,
-  Slider
+  Slider,
+  Snackbar,
+  Alert,
+  MenuItem,
 } from "@mui/material";
 import CloseIcon from "@mui/icons-material/Close";
 import { closeSettings } from "../../state/app-slice";
-import { useAppDispatch, useAppSelector } from "../../state/hooks";
+import {
+  useAppDispatch,
+  useAppSelector,
+  useSupportsCommand,
+} from "../../state/hooks";
 import {
   setShowCompass,
   setShowXYTracks,
   setShowFog,
-  setSocketIp,
-  setSocketPort,
+  setShowTrail,
+  setShowHeatmap,
+  setShowRawDetections,
+  setShowMemory,
+  setTrailColoring,
+  setFieldOrientation,
+  setGameProfile,
+  setRates,
 } from "../../state/settings-slice";
 import { Offset, ColorCorrection } from "../../lib/data-response";
+import { commands } from "../../lib/commands";
+import { Host, RequestResult, TrailColoring } from "../../lib/types";
+import { clearTrail } from "../../state/history-slice";
+import {
+  changeHost,
+  saveCameraOffset,
+  saveColorCorrection,
+  saveGpsOffset,
+} from "../../state/connection";
+import { config } from "../../util/config";
 
 const StyledTextField = styled(TextField)({
   "& label": {
@@ -49,6 +72,28 @@ const StyledTextField = styled(TextField)({
   },
 });
 
+/**
+ * Data commands whose rate can be changed, with their labels
+ */
+const rateLabels: { [command: string]: string } = {
+  [commands.gPos]: "Position",
+  [commands.gDetect]: "Detections",
+  [commands.gStats]: "Stats",
+  [commands.gColor]: "Color Image",
+  [commands.gDepth]: "Depth Image",
+  [commands.gMap]: "Map",
+};
+
+/**
+ * Is a data rate within the allowed range
+ *
+ * @param rate Rate (Hz)
+ * @returns boolean
+ */
+const isValidRate = (rate: number): boolean => {
+  return rate > 0 && rate <= config.maxRate;
+};
+
 /**
  * Modal for viewing and changing application settings
  *
@@ -59,13 +104,26 @@ const SettingsModal = () => {
   const showCompass = useAppSelector((state) => state.settings.showCompass);
   const showXYTracks = useAppSelector((state) => state.settings.showXYTracks);
   const showFog = useAppSelector((state) => state.settings.showFog);
+  const showTrail = useAppSelector((state) => state.settings.showTrail);
+  const showHeatmap = useAppSelector((state) => state.settings.showHeatmap);
+  const showRawDetections = useAppSelector(
+    (state) => state.settings.showRawDetections
+  );
+  const showMemory = useAppSelector((state) => state.settings.showMemory);
+  const trailColoring = useAppSelector((state) => state.settings.trailColoring);
+  const fieldOrientation = useAppSelector(
+    (state) => state.settings.fieldOrientation
+  );
+  const gameProfile = useAppSelector((state) => state.settings.gameProfile);
   const theme = useAppSelector((state) => state.settings.theme);
   const cameraOffset = useAppSelector((state) => state.settings.cameraOffset);
   const gpsOffset = useAppSelector((state) => state.settings.gpsOffset);
   const colorCorrection = useAppSelector((state) => state.settings.colorCorrection);
-  const dataService = useAppSelector((state) => state.data.dataService);
   const socketIp = useAppSelector((state) => state.settings.socketIp);
   const socketPort = useAppSelector((state) => state.settings.socketPort);
+  const streamPort = useAppSelector((state) => state.settings.streamPort);
+  const streamPath = useAppSelector((state) => state.settings.streamPath);
+  const rates = useAppSelector((state) => state.settings.rates);
   const socketConnected = useAppSelector(
     (state) => state.data.dataServiceConnected
   );
@@ -89,6 +147,22 @@ const SettingsModal = () => {
     s: 0,
     v: 0,
   })
+  const [tempRates, setTempRates] = useState<{ [command: string]: number }>(
+    rates
+  );
+  const [tempHost, setTempHost] = useState<Host>({
+    ip: socketIp,
+    port: socketPort,
+    streamPort,
+    streamPath,
+  });
+  const supportsCameraOffset = useSupportsCommand(commands.gSetCameraOffset);
+  const supportsGpsOffset = useSupportsCommand(commands.gSetGpsOffset);
+  const supportsColorCorrection = useSupportsCommand(
+    commands.gSetColorCorrection
+  );
+  const [saving, setSaving] = useState<boolean>(false);
+  const [saveResult, setSaveResult] = useState<RequestResult>(null);
   const dispatch = useAppDispatch();
 
   useEffect(() => {
@@ -109,9 +183,43 @@ const SettingsModal = () => {
     }
   }, [colorCorrection]);
 
-  const resetOffsets = () => {
+  useEffect(() => {
+    setTempRates(rates);
+  }, [rates]);
+
+  useEffect(() => {
+    setTempHost({ ip: socketIp, port: socketPort, streamPort, streamPath });
+  }, [socketIp, socketPort, streamPort, streamPath]);
+
+  /**
+   * Sends a setting to the brain and reports whether it was accepted
+   *
+   * @param label Name of the setting shown in the result message
+   * @param save Sends the new value and reads it back
+   */
+  const saveSetting = (label: string, save: () => Promise<unknown>) => {
+    setSaving(true);
+    save()
+      .then(() => setSaveResult({ severity: "success", message: `${label} saved` }))
+      .catch((ex: Error) =>
+        setSaveResult({
+          severity: "error",
+          message: `Failed to save ${label.toLowerCase()} - ${ex.message}`,
+        })
+      )
+      .finally(() => setSaving(false));
+  };
+
+  const resetUnsaved = () => {
     setTempCameraOffset(cameraOffset);
     setTempGpsOffset(gpsOffset);
+    setTempRates(rates);
+    setTempHost({ ip: socketIp, port: socketPort, streamPort, streamPath });
+  };
+
+  const saveRates = () => {
+    dispatch(setRates(tempRates));
+    setSaveResult({ severity: "success", message: "Data rates saved" });
   };
 
   const style = {
@@ -137,7 +245,7 @@ const SettingsModal = () => {
     <Modal
       open={open}
       onClose={() => {
-        resetOffsets();
+        resetUnsaved();
         dispatch(closeSettings());
       }}
       aria-labelledby="modal-modal-title"
@@ -164,7 +272,7 @@ const SettingsModal = () => {
                   size="large"
                   onClick={() => {
                     dispatch(closeSettings());
-                    resetOffsets();
+                    resetUnsaved();
                   }}
                   centerRipple
                 >
@@ -222,6 +330,46 @@ const SettingsModal = () => {
                 label="Show X Y Position Tracks"
                 style={{ color: theme.font }}
               />
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={showTrail === "true" ? true : false}
+                    onChange={(event) =>
+                      dispatch(
+                        setShowTrail(event.target.checked ? "true" : "false")
+                      )
+                    }
+                    sx={{
+                      color: theme.control,
+                      "&.Mui-checked": {
+                        color: theme.control,
+                      },
+                    }}
+                  />
+                }
+                label="Show Robot Trail"
+                style={{ color: theme.font }}
+              />
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={showHeatmap === "true" ? true : false}
+                    onChange={(event) =>
+                      dispatch(
+                        setShowHeatmap(event.target.checked ? "true" : "false")
+                      )
+                    }
+                    sx={{
+                      color: theme.control,
+                      "&.Mui-checked": {
+                        color: theme.control,
+                      },
+                    }}
+                  />
+                }
+                label="Show Coverage Heatmap"
+                style={{ color: theme.font }}
+              />
             </FormGroup>
           </Grid>
           <Grid item xs={6}>
@@ -246,357 +394,591 @@ const SettingsModal = () => {
                 label="Show Field of View"
                 style={{ color: theme.font }}
               />
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={showRawDetections === "true" ? true : false}
+                    onChange={(event) =>
+                      dispatch(
+                        setShowRawDetections(
+                          event.target.checked ? "true" : "false"
+                        )
+                      )
+                    }
+                    sx={{
+                      color: theme.control,
+                      "&.Mui-checked": {
+                        color: theme.control,
+                      },
+                    }}
+                  />
+                }
+                label="Show Raw Detections"
+                style={{ color: theme.font }}
+              />
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={showMemory === "true" ? true : false}
+                    onChange={(event) =>
+                      dispatch(
+                        setShowMemory(event.target.checked ? "true" : "false")
+                      )
+                    }
+                    sx={{
+                      color: theme.control,
+                      "&.Mui-checked": {
+                        color: theme.control,
+                      },
+                    }}
+                  />
+                }
+                label="Remember Elements Out Of View"
+                style={{ color: theme.font }}
+              />
             </FormGroup>
-          </Grid>
-          <Grid item xs={12}>
-            <Typography
-              id="demo-radio-buttons-group-label"
-              sx={{ color: theme.font, marginTop: 2 }}
+            <StyledTextField
+              select
+              id="game-profile"
+              label="Game"
+              variant="outlined"
+              size="small"
+              value={config.games[gameProfile] ? gameProfile : config.defaultGame}
+              onChange={(e) => dispatch(setGameProfile(e.target.value))}
+              sx={{ marginTop: 1, minWidth: 200, "& .MuiSelect-select": { color: "#E0E3E7" } }}
             >
-              Camera Offset
-            </Typography>
-            <Grid container spacing={1}>
-              <Grid item xs>
-                <StyledTextField
-                  onChange={(e) => {
-                    setTempCameraOffset({
-                      x: parseFloat(e.target.value),
-                      y: tempCameraOffset.y,
-                      z: tempCameraOffset.z,
-                      unit: "meters",
-                      headingOffset: tempCameraOffset.headingOffset,
-                      elevationOffset: tempCameraOffset.elevationOffset,
-                    });
-                  }}
-                  id="camera-offset-x"
-                  label="X (meters)"
-                  variant="outlined"
-                  value={tempCameraOffset.x}
-                  InputProps={{
-                    type: "number",
-                  }}
-                  sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
-                />
-              </Grid>
-              <Grid item xs>
-                <StyledTextField
-                  onChange={(e) => {
-                    setTempCameraOffset({
-                      x: tempCameraOffset.x,
-                      y: parseFloat(e.target.value),
-                      z: tempCameraOffset.z,
-                      unit: "meters",
-                      headingOffset: tempCameraOffset.headingOffset,
-                      elevationOffset: tempCameraOffset.elevationOffset,
-                    });
-                  }}
-                  id="camera-offset-y"
-                  label="Y (meters)"
-                  variant="outlined"
-                  value={tempCameraOffset.y}
-                  InputProps={{
-                    type: "number",
-                  }}
-                  sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
-                />
-              </Grid>
-              <Grid item xs>
-                <StyledTextField
-                  onChange={(e) => {
-                    setTempCameraOffset({
-                      x: tempCameraOffset.x,
-                      y: tempCameraOffset.y,
-                      z: parseFloat(e.target.value),
-                      unit: "meters",
-                      headingOffset: tempCameraOffset.headingOffset,
-                      elevationOffset: tempCameraOffset.elevationOffset,
-                    });
-                  }}
-                  id="camera-offset-z"
-                  label="Z (meters)"
-                  variant="outlined"
-                  value={tempCameraOffset.z}
-                  InputProps={{
-                    type: "number",
-                  }}
-                  sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
-                />
-              </Grid>
-              <Grid item xs>
-                <StyledTextField
-                  onChange={(e) => {
-                    setTempCameraOffset({
-                      x: tempCameraOffset.x,
-                      y: tempCameraOffset.y,
-                      z: tempCameraOffset.z,
-                      unit: "meters",
-                      headingOffset: parseFloat(e.target.value),
-                      elevationOffset: tempCameraOffset.elevationOffset,
-                    });
-                  }}
-                  id="camera-offset-heading"
-                  label="Heading (degrees)"
-                  variant="outlined"
-                  value={tempCameraOffset.headingOffset}
-                  InputProps={{
-                    type: "number",
-                  }}
-                  sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
-                />
-              </Grid>
-              <Grid item xs>
-                <StyledTextField
-                  onChange={(e) => {
-                    setTempCameraOffset({
-                      x: tempCameraOffset.x,
-                      y: tempCameraOffset.y,
-                      z: tempCameraOffset.z,
-                      unit: "meters",
-                      headingOffset: tempCameraOffset.headingOffset,
-                      elevationOffset: parseFloat(e.target.value),
-                    });
-                  }}
-                  id="camera-offset-elevation"
-                  label="Elevation (degrees)"
-                  variant="outlined"
-                  value={tempCameraOffset.elevationOffset}
-                  InputProps={{
-                    type: "number",
-                  }}
-                  sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
-                />
-              </Grid>
-              <Grid item xs>
-                <Button
-                  onClick={() => {
-                    dataService.setCameraOffset(
-                      `${tempCameraOffset.x.toString()},${tempCameraOffset.y.toString()},${tempCameraOffset.z.toString()},meters,${tempCameraOffset.headingOffset.toString()},${tempCameraOffset.elevationOffset.toString()}`
-                    );
-                    dataService.getCameraOffset();
-                  }}
-                  variant="contained"
-                  sx={{
-                    marginTop: 2,
-                    color: theme.font,
-                    backgroundColor: theme.control,
-                    "&:hover": {
-                      backgroundColor: theme.controlHover,
-                    },
-                  }}
-                >
-                  Save
-                </Button>
-              </Grid>
-            </Grid>
-            <Typography
-              id="demo-radio-buttons-group-label"
-              sx={{ color: theme.font, marginTop: 2 }}
+              {Object.entries(config.games).map(([id, game]) => (
+                <MenuItem key={id} value={id}>
+                  {game.name}
+                </MenuItem>
+              ))}
+            </StyledTextField>
+            <StyledTextField
+              select
+              id="trail-coloring"
+              label="Trail Color"
+              variant="outlined"
+              size="small"
+              value={trailColoring}
+              onChange={(e) =>
+                dispatch(setTrailColoring(e.target.value as TrailColoring))
+              }
+              sx={{ marginTop: 2, minWidth: 200, "& .MuiSelect-select": { color: "#E0E3E7" } }}
             >
-              GPS Offset
-            </Typography>
-            <Grid container spacing={1}>
-              <Grid item xs>
-                <StyledTextField
-                  onChange={(e) => {
-                    setTempGpsOffset({
-                      x: parseFloat(e.target.value),
-                      y: tempGpsOffset.y,
-                      z: tempGpsOffset.z,
-                      unit: "meters",
-                      headingOffset: tempGpsOffset.headingOffset,
-                    });
-                  }}
-                  id="gps-offset-x"
-                  label="X (meters)"
-                  variant="outlined"
-                  value={tempGpsOffset.x}
-                  InputProps={{
-                    type: "number",
-                  }}
-                  sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
-                />
-              </Grid>
-              <Grid item xs>
-                <StyledTextField
-                  onChange={(e) => {
-                    setTempGpsOffset({
-                      x: tempGpsOffset.x,
-                      y: parseFloat(e.target.value),
-                      z: tempGpsOffset.z,
-                      unit: "meters",
-                      headingOffset: tempGpsOffset.headingOffset,
-                    });
-                  }}
-                  id="gps-offset-y"
-                  label="Y (meters)"
-                  variant="outlined"
-                  value={tempGpsOffset.y}
-                  InputProps={{
-                    type: "number",
-                  }}
-                  sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
-                />
-              </Grid>
-              <Grid item xs>
-                <StyledTextField
-                  onChange={(e) => {
-                    setTempGpsOffset({
-                      x: tempGpsOffset.x,
-                      y: tempGpsOffset.y,
-                      z: parseFloat(e.target.value),
-                      unit: "meters",
-                      headingOffset: tempGpsOffset.headingOffset,
-                    });
-                  }}
-                  id="gps-offset-z"
-                  label="Z (meters)"
-                  variant="outlined"
-                  value={tempGpsOffset.z}
-                  InputProps={{
-                    type: "number",
-                  }}
-                  sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
-                />
-              </Grid>
-              <Grid item xs>
-                <StyledTextField
-                  onChange={(e) => {
-                    setTempGpsOffset({
-                      x: tempGpsOffset.x,
-                      y: tempGpsOffset.y,
-                      z: tempGpsOffset.z,
-                      unit: "meters",
-                      headingOffset: parseFloat(e.target.value),
-                    });
-                  }}
-                  id="gps-offset-z"
-                  label="Heading (degrees)"
-                  variant="outlined"
-                  value={tempGpsOffset.headingOffset}
-                  InputProps={{
-                    type: "number",
-                  }}
-                  sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
-                />
-              </Grid>
-              <Grid item xs>
-                <Button
-                  onClick={() => {
-                    dataService.setGpsOffset(
-                      `${tempGpsOffset.x.toString()},${tempGpsOffset.y.toString()},${tempGpsOffset.z.toString()},meters,${tempGpsOffset.headingOffset.toString()}`
-                    );
-                    dataService.getGpsOffset();
-                  }}
-                  variant="contained"
+              <MenuItem value={TrailColoring.None}>Single Color</MenuItem>
+              <MenuItem value={TrailColoring.Speed}>By Speed</MenuItem>
+              <MenuItem value={TrailColoring.Time}>By Time</MenuItem>
+            </StyledTextField>
+            <StyledTextField
+              select
+              id="field-rotation"
+              label="Field Rotation"
+              variant="outlined"
+              size="small"
+              value={fieldOrientation.rotation}
+              onChange={(e) =>
+                dispatch(
+                  setFieldOrientation({
+                    ...fieldOrientation,
+                    rotation: Number(e.target.value),
+                  })
+                )
+              }
+              sx={{ marginTop: 2, minWidth: 200, "& .MuiSelect-select": { color: "#E0E3E7" } }}
+            >
+              {[0, 90, 180, 270].map((rotation) => (
+                <MenuItem key={rotation} value={rotation}>
+                  {rotation}°
+                </MenuItem>
+              ))}
+            </StyledTextField>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={fieldOrientation.mirror}
+                  onChange={(event) =>
+                    dispatch(
+                      setFieldOrientation({
+                        ...fieldOrientation,
+                        mirror: event.target.checked,
+                      })
+                    )
+                  }
                   sx={{
-                    marginTop: 2,
-                    color: theme.font,
-                    backgroundColor: theme.control,
-                    "&:hover": {
-                      backgroundColor: theme.controlHover,
+                    color: theme.control,
+                    "&.Mui-checked": {
+                      color: theme.control,
                     },
                   }}
-                >
-                  Save
-                </Button>
-              </Grid>
-            </Grid>
-            {/* <Typography
-              id="demo-radio-buttons-group-label"
-              sx={{ color: theme.font, marginTop: 2 }}
+                />
+              }
+              label="Mirror Field"
+              style={{ color: theme.font, display: "flex", marginTop: 8 }}
+            />
+            <Button
+              onClick={() => {
+                dispatch(clearTrail());
+                setSaveResult({ severity: "success", message: "Trail and heatmap cleared" });
+              }}
+              variant="contained"
+              sx={{
+                marginTop: 2,
+                display: "block",
+                color: theme.font,
+                backgroundColor: theme.control,
+                "&:hover": {
+                  backgroundColor: theme.controlHover,
+                },
+              }}
             >
-              Color Correction
-            </Typography> */}
-            <Grid container spacing={3}>
-              <Grid item xs>
+              Clear Trail and Heatmap
+            </Button>
+          </Grid>
+          <Grid item xs={12}>
+            {supportsCameraOffset ? (
+              <>
                 <Typography
-                id="demo-radio-buttons-group-label"
-                sx={{ color: theme.font, marginTop: 2 }}
+                  id="demo-radio-buttons-group-label"
+                  sx={{ color: theme.font, marginTop: 2 }}
                 >
-                  Hue
+                  Camera Offset
                 </Typography>
-                <Slider
-                  max={100}
-                  min={-100}
-                  onChange={(e, v) => {
-                    setTempColorCorretion({
-                      h: Array.isArray(v) ? v[0] : v,
-                      s: tempColorCorrection.s,
-                      v: tempColorCorrection.v,
-                    })
-                  }}
-                  value={tempColorCorrection.h}
-                  valueLabelDisplay="auto"
-                  valueLabelFormat={(v) => {
-                    return (v > 0) ? `+${v}` : v
-                  }}
-                  id="hue-angle"
-                  sx={{color: theme.control}}
-                />
-              </Grid>
-              <Grid item xs>
+                <Grid container spacing={1}>
+                  <Grid item xs>
+                    <StyledTextField
+                      onChange={(e) => {
+                        setTempCameraOffset({
+                          x: parseFloat(e.target.value),
+                          y: tempCameraOffset.y,
+                          z: tempCameraOffset.z,
+                          unit: "meters",
+                          headingOffset: tempCameraOffset.headingOffset,
+                          elevationOffset: tempCameraOffset.elevationOffset,
+                        });
+                      }}
+                      id="camera-offset-x"
+                      label="X (meters)"
+                      variant="outlined"
+                      value={tempCameraOffset.x}
+                      InputProps={{
+                        type: "number",
+                      }}
+                      sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
+                    />
+                  </Grid>
+                  <Grid item xs>
+                    <StyledTextField
+                      onChange={(e) => {
+                        setTempCameraOffset({
+                          x: tempCameraOffset.x,
+                          y: parseFloat(e.target.value),
+                          z: tempCameraOffset.z,
+                          unit: "meters",
+                          headingOffset: tempCameraOffset.headingOffset,
+                          elevationOffset: tempCameraOffset.elevationOffset,
+                        });
+                      }}
+                      id="camera-offset-y"
+                      label="Y (meters)"
+                      variant="outlined"
+                      value={tempCameraOffset.y}
+                      InputProps={{
+                        type: "number",
+                      }}
+                      sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
+                    />
+                  </Grid>
+                  <Grid item xs>
+                    <StyledTextField
+                      onChange={(e) => {
+                        setTempCameraOffset({
+                          x: tempCameraOffset.x,
+                          y: tempCameraOffset.y,
+                          z: parseFloat(e.target.value),
+                          unit: "meters",
+                          headingOffset: tempCameraOffset.headingOffset,
+                          elevationOffset: tempCameraOffset.elevationOffset,
+                        });
+                      }}
+                      id="camera-offset-z"
+                      label="Z (meters)"
+                      variant="outlined"
+                      value={tempCameraOffset.z}
+                      InputProps={{
+                        type: "number",
+                      }}
+                      sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
+                    />
+                  </Grid>
+                  <Grid item xs>
+                    <StyledTextField
+                      onChange={(e) => {
+                        setTempCameraOffset({
+                          x: tempCameraOffset.x,
+                          y: tempCameraOffset.y,
+                          z: tempCameraOffset.z,
+                          unit: "meters",
+                          headingOffset: parseFloat(e.target.value),
+                          elevationOffset: tempCameraOffset.elevationOffset,
+                        });
+                      }}
+                      id="camera-offset-heading"
+                      label="Heading (degrees)"
+                      variant="outlined"
+                      value={tempCameraOffset.headingOffset}
+                      InputProps={{
+                        type: "number",
+                      }}
+                      sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
+                    />
+                  </Grid>
+                  <Grid item xs>
+                    <StyledTextField
+                      onChange={(e) => {
+                        setTempCameraOffset({
+                          x: tempCameraOffset.x,
+                          y: tempCameraOffset.y,
+                          z: tempCameraOffset.z,
+                          unit: "meters",
+                          headingOffset: tempCameraOffset.headingOffset,
+                          elevationOffset: parseFloat(e.target.value),
+                        });
+                      }}
+                      id="camera-offset-elevation"
+                      label="Elevation (degrees)"
+                      variant="outlined"
+                      value={tempCameraOffset.elevationOffset}
+                      InputProps={{
+                        type: "number",
+                      }}
+                      sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
+                    />
+                  </Grid>
+                  <Grid item xs>
+                    <Button
+                      onClick={() => {
+                        saveSetting("Camera offset", () =>
+                          dispatch(
+                            saveCameraOffset(
+                              `${tempCameraOffset.x.toString()},${tempCameraOffset.y.toString()},${tempCameraOffset.z.toString()},meters,${tempCameraOffset.headingOffset.toString()},${tempCameraOffset.elevationOffset.toString()}`
+                            )
+                          ).unwrap()
+                        );
+                      }}
+                      disabled={saving}
+                      variant="contained"
+                      sx={{
+                        marginTop: 2,
+                        color: theme.font,
+                        backgroundColor: theme.control,
+                        "&:hover": {
+                          backgroundColor: theme.controlHover,
+                        },
+                      }}
+                    >
+                      Save
+                    </Button>
+                  </Grid>
+                </Grid>
+              </>
+            ) : null}
+            {supportsGpsOffset ? (
+              <>
                 <Typography
                   id="demo-radio-buttons-group-label"
                   sx={{ color: theme.font, marginTop: 2 }}
                 >
-                  Saturation
+                  GPS Offset
                 </Typography>
-                <Slider
-                    max={100}
-                    min={-100}
-                    onChange={(e, v) => {
-                      setTempColorCorretion({
-                        h: tempColorCorrection.h,
-                        s: Array.isArray(v) ? v[0] : v,
-                        v: tempColorCorrection.v,
-                      })
-                    }}
-                    value={tempColorCorrection.s}
-                    valueLabelDisplay="auto"
-                    valueLabelFormat={(v) => {
-                      return (v > 0) ? `+${v}` : v
-                    }}
-                    id="saturation"
-                    sx={{color: theme.control}}
-                  />
-              </Grid>
-              <Grid item xs>
-                <Typography
+                <Grid container spacing={1}>
+                  <Grid item xs>
+                    <StyledTextField
+                      onChange={(e) => {
+                        setTempGpsOffset({
+                          x: parseFloat(e.target.value),
+                          y: tempGpsOffset.y,
+                          z: tempGpsOffset.z,
+                          unit: "meters",
+                          headingOffset: tempGpsOffset.headingOffset,
+                        });
+                      }}
+                      id="gps-offset-x"
+                      label="X (meters)"
+                      variant="outlined"
+                      value={tempGpsOffset.x}
+                      InputProps={{
+                        type: "number",
+                      }}
+                      sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
+                    />
+                  </Grid>
+                  <Grid item xs>
+                    <StyledTextField
+                      onChange={(e) => {
+                        setTempGpsOffset({
+                          x: tempGpsOffset.x,
+                          y: parseFloat(e.target.value),
+                          z: tempGpsOffset.z,
+                          unit: "meters",
+                          headingOffset: tempGpsOffset.headingOffset,
+                        });
+                      }}
+                      id="gps-offset-y"
+                      label="Y (meters)"
+                      variant="outlined"
+                      value={tempGpsOffset.y}
+                      InputProps={{
+                        type: "number",
+                      }}
+                      sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
+                    />
+                  </Grid>
+                  <Grid item xs>
+                    <StyledTextField
+                      onChange={(e) => {
+                        setTempGpsOffset({
+                          x: tempGpsOffset.x,
+                          y: tempGpsOffset.y,
+                          z: parseFloat(e.target.value),
+                          unit: "meters",
+                          headingOffset: tempGpsOffset.headingOffset,
+                        });
+                      }}
+                      id="gps-offset-z"
+                      label="Z (meters)"
+                      variant="outlined"
+                      value={tempGpsOffset.z}
+                      InputProps={{
+                        type: "number",
+                      }}
+                      sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
+                    />
+                  </Grid>
+                  <Grid item xs>
+                    <StyledTextField
+                      onChange={(e) => {
+                        setTempGpsOffset({
+                          x: tempGpsOffset.x,
+                          y: tempGpsOffset.y,
+                          z: tempGpsOffset.z,
+                          unit: "meters",
+                          headingOffset: parseFloat(e.target.value),
+                        });
+                      }}
+                      id="gps-offset-z"
+                      label="Heading (degrees)"
+                      variant="outlined"
+                      value={tempGpsOffset.headingOffset}
+                      InputProps={{
+                        type: "number",
+                      }}
+                      sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
+                    />
+                  </Grid>
+                  <Grid item xs>
+                    <Button
+                      onClick={() => {
+                        saveSetting("GPS offset", () =>
+                          dispatch(
+                            saveGpsOffset(
+                              `${tempGpsOffset.x.toString()},${tempGpsOffset.y.toString()},${tempGpsOffset.z.toString()},meters,${tempGpsOffset.headingOffset.toString()}`
+                            )
+                          ).unwrap()
+                        );
+                      }}
+                      disabled={saving}
+                      variant="contained"
+                      sx={{
+                        marginTop: 2,
+                        color: theme.font,
+                        backgroundColor: theme.control,
+                        "&:hover": {
+                          backgroundColor: theme.controlHover,
+                        },
+                      }}
+                    >
+                      Save
+                    </Button>
+                  </Grid>
+                </Grid>
+              </>
+            ) : null}
+            {supportsColorCorrection ? (
+              <>
+                {/* <Typography
                   id="demo-radio-buttons-group-label"
                   sx={{ color: theme.font, marginTop: 2 }}
                 >
-                  Value
-                </Typography>
-                <Slider
-                    max={100}
-                    min={-100}
-                    onChange={(e, v) => {
-                      setTempColorCorretion({
-                        h: tempColorCorrection.h,
-                        s: tempColorCorrection.s,
-                        v: Array.isArray(v) ? v[0] : v
-                      })
+                  Color Correction
+                </Typography> */}
+                <Grid container spacing={3}>
+                  <Grid item xs>
+                    <Typography
+                    id="demo-radio-buttons-group-label"
+                    sx={{ color: theme.font, marginTop: 2 }}
+                    >
+                      Hue
+                    </Typography>
+                    <Slider
+                      max={100}
+                      min={-100}
+                      onChange={(e, v) => {
+                        setTempColorCorretion({
+                          h: Array.isArray(v) ? v[0] : v,
+                          s: tempColorCorrection.s,
+                          v: tempColorCorrection.v,
+                        })
+                      }}
+                      value={tempColorCorrection.h}
+                      valueLabelDisplay="auto"
+                      valueLabelFormat={(v) => {
+                        return (v > 0) ? `+${v}` : v
+                      }}
+                      id="hue-angle"
+                      sx={{color: theme.control}}
+                    />
+                  </Grid>
+                  <Grid item xs>
+                    <Typography
+                      id="demo-radio-buttons-group-label"
+                      sx={{ color: theme.font, marginTop: 2 }}
+                    >
+                      Saturation
+                    </Typography>
+                    <Slider
+                        max={100}
+                        min={-100}
+                        onChange={(e, v) => {
+                          setTempColorCorretion({
+                            h: tempColorCorrection.h,
+                            s: Array.isArray(v) ? v[0] : v,
+                            v: tempColorCorrection.v,
+                          })
+                        }}
+                        value={tempColorCorrection.s}
+                        valueLabelDisplay="auto"
+                        valueLabelFormat={(v) => {
+                          return (v > 0) ? `+${v}` : v
+                        }}
+                        id="saturation"
+                        sx={{color: theme.control}}
+                      />
+                  </Grid>
+                  <Grid item xs>
+                    <Typography
+                      id="demo-radio-buttons-group-label"
+                      sx={{ color: theme.font, marginTop: 2 }}
+                    >
+                      Value
+                    </Typography>
+                    <Slider
+                        max={100}
+                        min={-100}
+                        onChange={(e, v) => {
+                          setTempColorCorretion({
+                            h: tempColorCorrection.h,
+                            s: tempColorCorrection.s,
+                            v: Array.isArray(v) ? v[0] : v
+                          })
+                        }}
+                        valueLabelDisplay="auto"
+                        valueLabelFormat={(v) => {
+                          return (v > 0) ? `+${v}` : v
+                        }}
+                        value={tempColorCorrection.v}
+                        id="value"
+                        sx={{color: theme.control}}
+                      />
+                  </Grid>
+                  <Grid item xs marginRight={-13}>
+                    <Button
+                      onClick={() => {
+                        saveSetting("Color correction", () =>
+                          dispatch(
+                            saveColorCorrection(
+                              `${tempColorCorrection.h.toString()},${tempColorCorrection.s.toString()},${tempColorCorrection.v.toString()}`
+                            )
+                          ).unwrap()
+                        );
+                      }}
+                      disabled={saving}
+                      variant="contained"
+                      sx={{
+                        marginTop: 5,
+                        color: theme.font,
+                        backgroundColor: theme.control,
+                        "&:hover": {
+                          backgroundColor: theme.controlHover,
+                        },
+                      }}
+                    >
+                      Save
+                    </Button>
+                  </Grid>
+                  <Grid item xs>
+                    <Button
+                      onClick={() => {
+                        saveSetting("Color correction", () =>
+                          dispatch(saveColorCorrection("0,0,0")).unwrap()
+                        );
+                      }}
+                      disabled={saving}
+                      variant="contained"
+                      sx={{
+                        marginTop: 5,
+                        color: theme.font,
+                        backgroundColor: theme.control,
+                        "&:hover": {
+                          backgroundColor: theme.controlHover,
+                        },
+                      }}
+                    >
+                      Reset
+                    </Button>
+                  </Grid>
+                </Grid>
+              </>
+            ) : null}
+          </Grid>
+          <Grid item xs={12}>
+            <Typography sx={{ color: theme.font, marginTop: 2 }}>
+              Data Rates (Hz)
+            </Typography>
+            <Grid container spacing={1}>
+              {Object.keys(rateLabels).map((command) => (
+                <Grid item xs key={command}>
+                  <StyledTextField
+                    onChange={(e) => {
+                      setTempRates({
+                        ...tempRates,
+                        [command]: parseFloat(e.target.value),
+                      });
                     }}
-                    valueLabelDisplay="auto"
-                    valueLabelFormat={(v) => {
-                      return (v > 0) ? `+${v}` : v
+                    error={!isValidRate(tempRates[command])}
+                    id={`rate-${command}`}
+                    label={rateLabels[command]}
+                    variant="outlined"
+                    value={
+                      Number.isNaN(tempRates[command]) ? "" : tempRates[command]
+                    }
+                    InputProps={{
+                      type: "number",
                     }}
-                    value={tempColorCorrection.v}
-                    id="value"
-                    sx={{color: theme.control}}
+                    sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
                   />
-              </Grid>
-              <Grid item xs marginRight={-13}>
+                </Grid>
+              ))}
+              <Grid item xs>
                 <Button
-                  onClick={() => {
-                    dataService.setColorCorrection(
-                      `${tempColorCorrection.h.toString()},${tempColorCorrection.s.toString()},${tempColorCorrection.v.toString()}`
-                    );
-                    dataService.getColorCorrection();
-                  }}
+                  onClick={saveRates}
+                  disabled={
+                    !Object.keys(rateLabels).every((command) =>
+                      isValidRate(tempRates[command])
+                    )
+                  }
                   variant="contained"
                   sx={{
-                    marginTop: 5,
+                    marginTop: 2,
                     color: theme.font,
                     backgroundColor: theme.control,
                     "&:hover": {
@@ -609,15 +991,10 @@ const SettingsModal = () => {
               </Grid>
               <Grid item xs>
                 <Button
-                  onClick={() => {
-                    dataService.setColorCorrection(
-                      "0,0,0"
-                    );
-                    dataService.getColorCorrection();
-                  }}
+                  onClick={() => setTempRates({ ...config.rates })}
                   variant="contained"
                   sx={{
-                    marginTop: 5,
+                    marginTop: 2,
                     color: theme.font,
                     backgroundColor: theme.control,
                     "&:hover": {
@@ -625,7 +1002,7 @@ const SettingsModal = () => {
                     },
                   }}
                 >
-                  Reset
+                  Defaults
                 </Button>
               </Grid>
             </Grid>
@@ -635,35 +1012,57 @@ const SettingsModal = () => {
               <Grid item>
                 <StyledTextField
                   onChange={(e) => {
-                    dispatch(setSocketIp(e.target.value));
+                    setTempHost({ ...tempHost, ip: e.target.value });
                   }}
                   error={!socketConnected}
                   id="socket-ip"
                   label="Socket IP"
                   variant="outlined"
-                  value={socketIp ? socketIp : ""}
+                  value={tempHost.ip ? tempHost.ip : ""}
                   sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
                 />
               </Grid>
               <Grid item>
                 <StyledTextField
                   onChange={(e) => {
-                    dispatch(setSocketPort(e.target.value));
+                    setTempHost({ ...tempHost, port: e.target.value });
                   }}
                   error={!socketConnected}
                   id="socket-port"
                   label="Socket Port"
                   variant="outlined"
-                  value={socketPort ? socketPort : ""}
+                  value={tempHost.port ? tempHost.port : ""}
+                  sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
+                />
+              </Grid>
+              <Grid item>
+                <StyledTextField
+                  onChange={(e) => {
+                    setTempHost({ ...tempHost, streamPort: e.target.value });
+                  }}
+                  id="stream-port"
+                  label="Stream Port"
+                  variant="outlined"
+                  value={tempHost.streamPort ? tempHost.streamPort : ""}
+                  sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
+                />
+              </Grid>
+              <Grid item>
+                <StyledTextField
+                  onChange={(e) => {
+                    setTempHost({ ...tempHost, streamPath: e.target.value });
+                  }}
+                  id="stream-path"
+                  label="Stream Path"
+                  variant="outlined"
+                  value={tempHost.streamPath ? tempHost.streamPath : ""}
                   sx={{ marginTop: 1, input: { color: "#E0E3E7" } }}
                 />
               </Grid>
               <Grid item xs>
                 <Button
                   onClick={() => {
-                    dataService.ip = socketIp;
-                    dataService.port = socketPort;
-                    dataService.restart();
+                    dispatch(changeHost(tempHost));
                   }}
                   variant="contained"
                   sx={{
@@ -681,6 +1080,20 @@ const SettingsModal = () => {
             </Grid>
           </Grid>
         </Grid>
+        <Snackbar
+          open={saveResult !== null}
+          autoHideDuration={4000}
+          onClose={() => setSaveResult(null)}
+          anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+        >
+          <Alert
+            severity={saveResult ? saveResult.severity : "info"}
+            variant="filled"
+            onClose={() => setSaveResult(null)}
+          >
+            {saveResult ? saveResult.message : ""}
+          </Alert>
+        </Snackbar>
       </Box>
     </Modal>
   );
@@ -0,0 +1,34 @@
+import React from "react";
+import { Alert, AlertTitle } from "@mui/material";
+import { useAppDispatch, useAppSelector } from "../../state/hooks";
+import { dismissConfigErrors } from "../../state/app-slice";
+
+/**
+ * Lists the problems found in config.json until dismissed
+ *
+ * @returns JSX.Element
+ */
+const ConfigErrors = () => {
+  const errors = useAppSelector((state) => state.app.configErrors);
+  const dispatch = useAppDispatch();
+
+  if (errors.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert
+      severity="warning"
+      variant="filled"
+      onClose={() => dispatch(dismissConfigErrors())}
+      sx={{ marginBottom: 1 }}
+    >
+      <AlertTitle>config.json was partly ignored</AlertTitle>
+      {errors.map((error, i) => (
+        <div key={i}>{error}</div>
+      ))}
+    </Alert>
+  );
+};
+
+export default ConfigErrors;
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from "react";
+import { Box, Link, Typography } from "@mui/material";
+import { useAppDispatch, useAppSelector } from "../../state/hooks";
+import { reconnectNow } from "../../state/connection";
+import { ConnectionState } from "../../lib/types";
+import { config } from "../../util/config";
+
+/**
+ * Banner colors for each connection state, open connections show no banner
+ */
+const bannerColors: { [state: string]: string } = {
+  [ConnectionState.Connecting]: config.colors.darkGray,
+  [ConnectionState.Degraded]: config.colors.darkOrange,
+  [ConnectionState.Reconnecting]: config.colors.red,
+  [ConnectionState.Closed]: config.colors.red,
+};
+
+/**
+ * Displays the websocket connection state with a countdown to the next reconnect attempt
+ *
+ * @returns JSX.Element
+ */
+const ConnectionBanner = () => {
+  const connectionState = useAppSelector((state) => state.data.connectionState);
+  const reconnectAt = useAppSelector((state) => state.data.reconnectAt);
+  const dispatch = useAppDispatch();
+  const [now, setNow] = useState<number>(Date.now());
+
+  /**
+   * Tick the countdown while waiting to reconnect
+   */
+  useEffect(() => {
+    if (connectionState !== ConnectionState.Reconnecting) {
+      return undefined;
+    }
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [connectionState]);
+
+  if (connectionState === ConnectionState.Open) {
+    return null;
+  }
+
+  const getText = () => {
+    switch (connectionState) {
+      case ConnectionState.Connecting:
+        return "CONNECTING";
+      case ConnectionState.Degraded:
+        return "CONNECTION DEGRADED - NO DATA RECEIVED";
+      case ConnectionState.Reconnecting: {
+        const seconds = reconnectAt
+          ? Math.ceil((reconnectAt - now) / 1000)
+          : 0;
+        return seconds > 0
+          ? `DISCONNECTED - RETRYING IN ${seconds}s`
+          : "DISCONNECTED - RETRYING";
+      }
+      default:
+        return "DISCONNECTED";
+    }
+  };
+
+  return (
+    <Box
+      sx={{
+        backgroundColor: bannerColors[connectionState],
+        height: 20,
+      }}
+    >
+      <Typography align="center" variant="subtitle2">
+        {getText()}
+        {connectionState === ConnectionState.Reconnecting ||
+        connectionState === ConnectionState.Closed ? (
+          <Link
+            component="button"
+            variant="subtitle2"
+            color="inherit"
+            sx={{ marginLeft: 2 }}
+            onClick={() => dispatch(reconnectNow())}
+          >
+            RETRY NOW
+          </Link>
+        ) : null}
+      </Typography>
+    </Box>
+  );
+};
+
+export default ConnectionBanner;
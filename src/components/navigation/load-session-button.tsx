@@ -0,0 +1,74 @@
+import React, { useRef } from "react";
+import {
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Tooltip,
+} from "@mui/material";
+import FolderOpenIcon from "@mui/icons-material/FolderOpen";
+import { useAppSelector } from "../../state/hooks";
+import { sessionPlayer } from "../../services/session-player";
+
+interface LoadSessionButtonProps {
+  drawerOpen: boolean;
+}
+
+/**
+ * Drawer button for loading a recorded session to play back
+ *
+ * @param param0 Load session button properties
+ * @returns JSX.Element
+ */
+const LoadSessionButton = ({ drawerOpen }: LoadSessionButtonProps) => {
+  const theme = useAppSelector((state) => state.settings.theme);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const fileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    sessionPlayer
+      .load(file, file.name)
+      .catch((ex) =>
+        alert(`Failed to load session ${file.name} - ${ex.message ?? ex}`)
+      );
+  };
+
+  return (
+    <ListItem disablePadding>
+      <Tooltip
+        title="Load Session"
+        disableHoverListener={drawerOpen}
+        placement="right"
+      >
+        <ListItemButton
+          sx={{
+            "&:hover": {
+              bgcolor: theme.controlHover,
+            },
+          }}
+          onClick={() => inputRef.current?.click()}
+        >
+          <ListItemIcon>
+            <FolderOpenIcon sx={{ color: theme.font, paddingLeft: "9px" }} />
+          </ListItemIcon>
+          <ListItemText sx={{ paddingLeft: 1, color: theme.font }}>
+            Load Session
+          </ListItemText>
+        </ListItemButton>
+      </Tooltip>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".gz,.ndjson"
+        hidden
+        onChange={fileSelected}
+      />
+    </ListItem>
+  );
+};
+
+export default LoadSessionButton;
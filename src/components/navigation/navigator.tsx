@@ -18,8 +18,6 @@ import { openSettings } from "../../state/app-slice";
 import SettingsModal from "../modals/settings-modal";
 import SettingsIcon from "@mui/icons-material/Settings";
 import { GridLegacy as Grid, Toolbar, Tooltip } from "@mui/material";
-import Typography from "@mui/material/Typography";
-import { config } from "../../util/config";
 import Drawer from "@mui/material/Drawer";
 import ArrowBackIosNewIcon from "@mui/icons-material/ArrowBackIosNew";
 import ArrowForwardIosIcon from "@mui/icons-material/ArrowForwardIos";
@@ -28,6 +26,13 @@ import VideoCameraBackIcon from "@mui/icons-material/VideoCameraBack";
 import SatelliteIcon from "@mui/icons-material/Satellite";
 import Stats from "../stats";
 import FieldAndCameraView from "../../routes/field-and-camera-view";
+import ConnectionBanner from "./connection-banner";
+import ConfigErrors from "./config-errors";
+import SmartToyIcon from "@mui/icons-material/SmartToy";
+import RecorderControls from "./recorder-controls";
+import LoadSessionButton from "./load-session-button";
+import ProfileMenu from "./profile-menu";
+import Timeline from "../playback/timeline";
 
 /**
  * Opened drawer width
@@ -94,11 +99,9 @@ const StyledDrawer = styled(Drawer, {
  */
 const Navigator: FC = () => {
   const [open, setOpen] = useState(false);
-  const dataServiceConnected = useAppSelector(
-    (state) => state.data.dataServiceConnected
-  );
   const settingsOpen = useAppSelector((state) => state.app.settingsOpen);
   const theme = useAppSelector((state) => state.settings.theme);
+  const hello = useAppSelector((state) => state.data.hello);
   const dispatch = useAppDispatch();
   const navigate = useNavigate();
   const location = useLocation();
@@ -121,7 +124,37 @@ const Navigator: FC = () => {
           style={{ marginTop: 35 }}
           fit="scale-down"
         />
-        <div style={{ height: 40 }} />
+        {hello && (hello.robot || hello.team) ? (
+          <List>
+            <Tooltip
+              title={`${hello.team ? `Team ${hello.team} ` : ""}${
+                hello.robot ?? ""
+              } - protocol v${hello.version ?? "?"}, build ${
+                hello.build ?? "unknown"
+              }`}
+              placement="right"
+            >
+              <ListItem>
+                <ListItemIcon>
+                  <SmartToyIcon
+                    sx={{
+                      color: theme.font,
+                      paddingLeft: "9px",
+                    }}
+                  />
+                </ListItemIcon>
+                <ListItemText
+                  primary={hello.robot}
+                  secondary={hello.team ? `Team ${hello.team}` : null}
+                  sx={{ paddingLeft: 1, color: theme.font }}
+                  secondaryTypographyProps={{ sx: { color: theme.font } }}
+                />
+              </ListItem>
+            </Tooltip>
+          </List>
+        ) : (
+          <div style={{ height: 40 }} />
+        )}
         <List component="nav">
           <ListItem disablePadding>
             <Tooltip
@@ -283,6 +316,9 @@ const Navigator: FC = () => {
 
         <Toolbar />
         <List sx={{ marginTop: "auto" }}>
+          <ProfileMenu drawerOpen={open} />
+          <RecorderControls drawerOpen={open} />
+          <LoadSessionButton drawerOpen={open} />
           <ListItem disablePadding>
             <Tooltip
               title="Settings"
@@ -355,18 +391,9 @@ const Navigator: FC = () => {
         </List>
       </StyledDrawer>
       <Box component="main" sx={{ flexGrow: 1, p: 2, bgcolor: "black" }}>
-        {!dataServiceConnected ? (
-          <Box
-            sx={{
-              backgroundColor: config.colors.red,
-              height: 20,
-            }}
-          >
-            <Typography align="center" variant="subtitle2">
-              DISCONNECTED
-            </Typography>
-          </Box>
-        ) : null}
+        <ConfigErrors />
+        <ConnectionBanner />
+        <Timeline />
         <Grid
           container
           spacing={2}
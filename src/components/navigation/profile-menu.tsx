@@ -0,0 +1,126 @@
+import React, { useState } from "react";
+import {
+  Divider,
+  IconButton,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Tooltip,
+} from "@mui/material";
+import RouterIcon from "@mui/icons-material/Router";
+import DeleteIcon from "@mui/icons-material/Delete";
+import SaveIcon from "@mui/icons-material/Save";
+import { useAppDispatch, useAppSelector } from "../../state/hooks";
+import {
+  deleteProfile,
+  saveProfile,
+  selectProfile,
+} from "../../state/settings-slice";
+
+interface ProfileMenuProps {
+  drawerOpen: boolean;
+}
+
+/**
+ * Drawer button listing the saved robot connection profiles
+ *
+ * @param param0 Profile menu properties
+ * @returns JSX.Element
+ */
+const ProfileMenu = ({ drawerOpen }: ProfileMenuProps) => {
+  const theme = useAppSelector((state) => state.settings.theme);
+  const profiles = useAppSelector((state) => state.settings.profiles);
+  const activeProfile = useAppSelector((state) => state.settings.activeProfile);
+  const socketIp = useAppSelector((state) => state.settings.socketIp);
+  const socketPort = useAppSelector((state) => state.settings.socketPort);
+  const [anchor, setAnchor] = useState<HTMLElement>(null);
+  const dispatch = useAppDispatch();
+
+  const saveCurrent = () => {
+    setAnchor(null);
+    const name = prompt("Profile name", activeProfile ?? "")?.trim();
+    if (name) {
+      dispatch(saveProfile(name));
+    }
+  };
+
+  const remove = (name: string) => {
+    if (confirm(`Delete the ${name} profile?`)) {
+      dispatch(deleteProfile(name));
+    }
+  };
+
+  return (
+    <ListItem disablePadding>
+      <Tooltip
+        title={`${activeProfile ?? "Robot"} (${socketIp}:${socketPort})`}
+        disableHoverListener={drawerOpen}
+        placement="right"
+      >
+        <ListItemButton
+          sx={{
+            "&:hover": {
+              bgcolor: theme.controlHover,
+            },
+          }}
+          onClick={(e) => setAnchor(e.currentTarget)}
+        >
+          <ListItemIcon>
+            <RouterIcon sx={{ color: theme.font, paddingLeft: "9px" }} />
+          </ListItemIcon>
+          <ListItemText
+            sx={{ paddingLeft: 1, color: theme.font }}
+            primary={activeProfile ?? "Robot"}
+            secondary={`${socketIp}:${socketPort}`}
+            secondaryTypographyProps={{ sx: { color: theme.font } }}
+          />
+        </ListItemButton>
+      </Tooltip>
+      <Menu
+        anchorEl={anchor}
+        open={anchor !== null}
+        onClose={() => setAnchor(null)}
+        anchorOrigin={{ vertical: "top", horizontal: "right" }}
+      >
+        {profiles.map((profile) => (
+          <MenuItem
+            key={profile.name}
+            selected={profile.name === activeProfile}
+            onClick={() => {
+              setAnchor(null);
+              dispatch(selectProfile(profile.name));
+            }}
+          >
+            <ListItemText
+              primary={profile.name}
+              secondary={`${profile.ip}:${profile.port}`}
+            />
+            <IconButton
+              edge="end"
+              size="small"
+              sx={{ marginLeft: 2 }}
+              onClick={(e) => {
+                e.stopPropagation();
+                remove(profile.name);
+              }}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </MenuItem>
+        ))}
+        {profiles.length > 0 && <Divider />}
+        <MenuItem onClick={saveCurrent}>
+          <ListItemIcon>
+            <SaveIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Save Current Connection" />
+        </MenuItem>
+      </Menu>
+    </ListItem>
+  );
+};
+
+export default ProfileMenu;
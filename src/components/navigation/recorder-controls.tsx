@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from "react";
+import {
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Tooltip,
+} from "@mui/material";
+import FiberManualRecordIcon from "@mui/icons-material/FiberManualRecord";
+import StopIcon from "@mui/icons-material/Stop";
+import DownloadIcon from "@mui/icons-material/Download";
+import { useAppDispatch, useAppSelector } from "../../state/hooks";
+import { startRecording } from "../../state/connection";
+import { ConnectionState } from "../../lib/types";
+import {
+  RecordingProgress,
+  sessionRecorder,
+} from "../../services/session-recorder";
+import { config } from "../../util/config";
+
+interface RecorderControlsProps {
+  drawerOpen: boolean;
+}
+
+/**
+ * Formats a duration as mm:ss
+ *
+ * @param ms Duration (ms)
+ * @returns string
+ */
+const formatDuration = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m < 10 ? "0" : ""}${m}:${s < 10 ? "0" : ""}${s}`;
+};
+
+/**
+ * Formats a file size in KB or MB
+ *
+ * @param bytes Size (bytes)
+ * @returns string
+ */
+const formatSize = (bytes: number): string => {
+  return bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(0)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Drawer controls for recording a session and downloading the recording
+ *
+ * @param param0 Recorder control properties
+ * @returns JSX.Element
+ */
+const RecorderControls = ({ drawerOpen }: RecorderControlsProps) => {
+  const dispatch = useAppDispatch();
+  const connectionState = useAppSelector((state) => state.data.connectionState);
+  const theme = useAppSelector((state) => state.settings.theme);
+  const [progress, setProgress] = useState<RecordingProgress>(
+    sessionRecorder.progress()
+  );
+
+  useEffect(() => {
+    sessionRecorder.on("progress", setProgress);
+    return () => {
+      sessionRecorder.off("progress", setProgress);
+    };
+  }, []);
+
+  const buttonSx = {
+    "&:hover": {
+      bgcolor: theme.controlHover,
+    },
+  };
+  const status = `${formatDuration(progress.duration)}  ${formatSize(
+    progress.bytes
+  )}`;
+
+  return (
+    <>
+      <ListItem disablePadding>
+        <Tooltip
+          title={
+            progress.recording ? `Stop Recording (${status})` : "Record Session"
+          }
+          disableHoverListener={drawerOpen}
+          placement="right"
+        >
+          <ListItemButton
+            sx={buttonSx}
+            disabled={
+              !progress.recording && connectionState === ConnectionState.Closed
+            }
+            onClick={() =>
+              progress.recording
+                ? sessionRecorder.stop()
+                : dispatch(startRecording())
+            }
+          >
+            <ListItemIcon>
+              {progress.recording ? (
+                <StopIcon
+                  sx={{ color: config.colors.red, paddingLeft: "9px" }}
+                />
+              ) : (
+                <FiberManualRecordIcon
+                  sx={{ color: config.colors.red, paddingLeft: "9px" }}
+                />
+              )}
+            </ListItemIcon>
+            <ListItemText
+              sx={{ paddingLeft: 1, color: theme.font }}
+              primary={progress.recording ? "Stop" : "Record"}
+              secondary={
+                progress.recording || progress.available ? status : null
+              }
+              secondaryTypographyProps={{ sx: { color: theme.font } }}
+            />
+          </ListItemButton>
+        </Tooltip>
+      </ListItem>
+      {progress.available && !progress.recording ? (
+        <ListItem disablePadding>
+          <Tooltip
+            title="Download Recording"
+            disableHoverListener={drawerOpen}
+            placement="right"
+          >
+            <ListItemButton
+              sx={buttonSx}
+              onClick={() => sessionRecorder.download()}
+            >
+              <ListItemIcon>
+                <DownloadIcon sx={{ color: theme.font, paddingLeft: "9px" }} />
+              </ListItemIcon>
+              <ListItemText sx={{ paddingLeft: 1, color: theme.font }}>
+                Download
+              </ListItemText>
+            </ListItemButton>
+          </Tooltip>
+        </ListItem>
+      ) : null}
+    </>
+  );
+};
+
+export default RecorderControls;
@@ -0,0 +1,128 @@
+import React from "react";
+import {
+  Box,
+  IconButton,
+  MenuItem,
+  Select,
+  Slider,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import PlayArrowIcon from "@mui/icons-material/PlayArrow";
+import PauseIcon from "@mui/icons-material/Pause";
+import SkipPreviousIcon from "@mui/icons-material/SkipPrevious";
+import SkipNextIcon from "@mui/icons-material/SkipNext";
+import EjectIcon from "@mui/icons-material/Eject";
+import { useAppSelector } from "../../state/hooks";
+import { sessionPlayer } from "../../services/session-player";
+
+/**
+ * Playback speeds offered in the speed selector
+ */
+const speeds = [0.25, 0.5, 1, 2, 4];
+
+/**
+ * Formats a playback position as mm:ss.s
+ *
+ * @param ms Position (ms)
+ * @returns string
+ */
+const formatPosition = (ms: number): string => {
+  const m = Math.floor(ms / 60000);
+  const s = (ms % 60000) / 1000;
+  return `${m < 10 ? "0" : ""}${m}:${s < 10 ? "0" : ""}${s.toFixed(1)}`;
+};
+
+/**
+ * Timeline bar for playing back a recorded session
+ *
+ * @returns JSX.Element
+ */
+const Timeline = () => {
+  const playback = useAppSelector((state) => state.playback);
+  const theme = useAppSelector((state) => state.settings.theme);
+
+  if (!playback.loaded) {
+    return null;
+  }
+
+  const iconSx = {
+    color: theme.font,
+    "&:hover": {
+      color: theme.control,
+    },
+  };
+
+  return (
+    <Box
+      sx={{
+        display: "flex",
+        alignItems: "center",
+        gap: 1,
+        paddingLeft: 2,
+        paddingRight: 2,
+        backgroundColor: theme.componentBackground,
+        borderRadius: "5px",
+        marginTop: 1,
+      }}
+    >
+      <Tooltip title="Previous Frame">
+        <IconButton onClick={() => sessionPlayer.step(-1)}>
+          <SkipPreviousIcon sx={iconSx} />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title={playback.playing ? "Pause" : "Play"}>
+        <IconButton
+          onClick={() =>
+            playback.playing ? sessionPlayer.pause() : sessionPlayer.play()
+          }
+        >
+          {playback.playing ? (
+            <PauseIcon sx={iconSx} />
+          ) : (
+            <PlayArrowIcon sx={iconSx} />
+          )}
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="Next Frame">
+        <IconButton onClick={() => sessionPlayer.step(1)}>
+          <SkipNextIcon sx={iconSx} />
+        </IconButton>
+      </Tooltip>
+      <Slider
+        min={0}
+        max={playback.duration}
+        value={playback.position}
+        onChange={(e, v) => sessionPlayer.seek(Array.isArray(v) ? v[0] : v)}
+        valueLabelDisplay="auto"
+        valueLabelFormat={formatPosition}
+        sx={{ color: theme.control, marginLeft: 2, marginRight: 2 }}
+      />
+      <Typography variant="caption" sx={{ color: theme.font, whiteSpace: "nowrap" }}>
+        {`${formatPosition(playback.position)} / ${formatPosition(
+          playback.duration
+        )}  frame ${playback.frame + 1}/${playback.frameCount}`}
+      </Typography>
+      <Select
+        value={playback.speed}
+        onChange={(e) => sessionPlayer.setSpeed(Number(e.target.value))}
+        size="small"
+        variant="standard"
+        sx={{ color: theme.font, minWidth: 60 }}
+      >
+        {speeds.map((speed) => (
+          <MenuItem key={speed} value={speed}>
+            {`${speed}x`}
+          </MenuItem>
+        ))}
+      </Select>
+      <Tooltip title={`Close ${playback.fileName ?? "session"}`}>
+        <IconButton onClick={() => sessionPlayer.unload()}>
+          <EjectIcon sx={iconSx} />
+        </IconButton>
+      </Tooltip>
+    </Box>
+  );
+};
+
+export default Timeline;
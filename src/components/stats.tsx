@@ -6,7 +6,37 @@ import DeviceThermostatIcon from "@mui/icons-material/DeviceThermostat";
 import AutofpsSelectIcon from "@mui/icons-material/AutofpsSelect";
 import VideocamIcon from "@mui/icons-material/Videocam";
 import TimerIcon from "@mui/icons-material/Timer";
-import { useAppSelector } from "../state/hooks";
+import WarningAmberIcon from "@mui/icons-material/WarningAmber";
+import NetworkCheckIcon from "@mui/icons-material/NetworkCheck";
+import { useAppSelector, useDataSubscription } from "../state/hooks";
+import { NetworkStats } from "../services/round-trip-monitor";
+
+/**
+ * Formats a stat that may be missing from the response
+ *
+ * @param value Stat value
+ * @param format Formats the value when present
+ * @returns string
+ */
+const formatStat = (value: number, format: (v: number) => string): string => {
+  return typeof value === "number" ? format(value) : "--";
+};
+
+/**
+ * Color for the network readout based on latency and dropped requests
+ *
+ * @param network Network stats
+ * @returns string
+ */
+const getNetworkColor = (network: NetworkStats): string => {
+  if (network.dropRate > 0.1 || network.rttP95 > 250) {
+    return "red";
+  }
+  if (network.dropRate > 0.02 || network.rttP95 > 100) {
+    return "orange";
+  }
+  return "green";
+};
 
 /**
  * Displays application statistics received from the websocket server
@@ -16,29 +46,33 @@ import { useAppSelector } from "../state/hooks";
 const Stats = () => {
   const [cpuTempColor, setCpuTempColor] = useState<string>("green");
   const [runTime, setRunTime] = useState<string>("00:00:00");
-  const response = useAppSelector((state) => state.data.response);
+  const stats = useAppSelector((state) => state.data.response?.stats);
+  const decodeErrors = useAppSelector((state) => state.diagnostics.decodeErrors);
+  const totalDecodeErrors = useAppSelector(
+    (state) => state.diagnostics.totalDecodeErrors
+  );
+  const network = useAppSelector((state) => state.diagnostics.network);
+  useDataSubscription(["stats"]);
 
   useEffect(() => {
-    if (response && response.stats) {
-      const h = Math.floor(response.stats.runTime / 3600);
-      const m = Math.floor(response.stats.runTime / 60) - h * 60;
-      const s = Math.floor(response.stats.runTime % 60);
+    if (stats && typeof stats.runTime === "number") {
+      const h = Math.floor(stats.runTime / 3600);
+      const m = Math.floor(stats.runTime / 60) - h * 60;
+      const s = Math.floor(stats.runTime % 60);
       setRunTime(
         `${h < 10 ? "0" : ""}${h}:${m < 10 ? "0" : ""}${m}:${
           s < 10 ? "0" : ""
         }${s}`
       );
-      if (response.stats.cpuTempurature < 40) {
+    } else {
+      setRunTime("--");
+    }
+    if (stats && typeof stats.cpuTempurature === "number") {
+      if (stats.cpuTempurature < 40) {
         setCpuTempColor("green");
-      } else if (
-        response.stats.cpuTempurature >= 40 &&
-        response.stats.cpuTempurature < 50
-      ) {
+      } else if (stats.cpuTempurature >= 40 && stats.cpuTempurature < 50) {
         setCpuTempColor("yellow");
-      } else if (
-        response.stats.cpuTempurature >= 50 &&
-        response.stats.cpuTempurature < 60
-      ) {
+      } else if (stats.cpuTempurature >= 50 && stats.cpuTempurature < 60) {
         setCpuTempColor("orange");
       } else {
         setCpuTempColor("red");
@@ -46,20 +80,20 @@ const Stats = () => {
     } else {
       setCpuTempColor("white");
     }
-  }, [response]);
+  }, [stats]);
 
   return (
     <List sx={{ marginTop: "auto", paddingLeft: 0.3 }}>
-      {response && response.stats ? (
+      {stats ? (
         <>
           <Tooltip
             title={
-              response.stats.gpsConnected ? "GPS Connected" : "GPS Disconnected"
+              stats.gpsConnected ? "GPS Connected" : "GPS Disconnected"
             }
             placement="right"
           >
             <ListItem>
-              {response.stats.gpsConnected ? (
+              {stats.gpsConnected ? (
                 <GpsFixedIcon sx={{ color: "green", paddingLeft: "3.7px" }} />
               ) : (
                 <GpsOffIcon sx={{ color: "red", paddingLeft: "3.7px" }} />
@@ -73,9 +107,10 @@ const Stats = () => {
                 fontSize="small"
               />
               <Typography sx={{ color: cpuTempColor }}>
-                {`${response.stats.cpuTempurature.toFixed(
-                  0
-                )}${String.fromCharCode(176)}C`}
+                {formatStat(
+                  stats.cpuTempurature,
+                  (v) => `${v.toFixed(0)}${String.fromCharCode(176)}C`
+                )}
               </Typography>
             </ListItem>
           </Tooltip>
@@ -83,16 +118,19 @@ const Stats = () => {
             <ListItem disablePadding sx={{ paddingBottom: "7px" }}>
               <VideocamIcon sx={{ color: "white" }} fontSize="small" />
               <Typography variant="caption" sx={{ color: "white" }}>
-                {`${response.stats.fps.toFixed(0)} fps`}
+                {formatStat(stats.fps, (v) => `${v.toFixed(0)} fps`)}
               </Typography>
             </ListItem>
           </Tooltip>
           <Tooltip title="Infer Time" placement="right">
             <ListItem disablePadding sx={{ paddingBottom: "7px" }}>
               <AutofpsSelectIcon sx={{ color: "white" }} fontSize="small" />
-              <Typography variant="caption" sx={{ color: "white" }}>{`${(
-                response.stats.inferTime * 1000
-              ).toFixed(1)}ms`}</Typography>
+              <Typography variant="caption" sx={{ color: "white" }}>
+                {formatStat(
+                  stats.inferTime,
+                  (v) => `${(v * 1000).toFixed(1)}ms`
+                )}
+              </Typography>
             </ListItem>
           </Tooltip>
           <Tooltip title="Run Time" placement="right">
@@ -136,8 +174,57 @@ const Stats = () => {
           </Tooltip>
         </>
       )}
+      {network && network.samples ? (
+        <Tooltip
+          title={
+            <>
+              {`Round trip p50 / p95 / p99: ${formatStat(
+                network.rttP50,
+                (v) => v.toFixed(0)
+              )} / ${formatStat(network.rttP95, (v) =>
+                v.toFixed(0)
+              )} / ${formatStat(network.rttP99, (v) => v.toFixed(0))} ms`}
+              <div>{`Dropped: ${(network.dropRate * 100).toFixed(1)}%`}</div>
+            </>
+          }
+          placement="right"
+        >
+          <ListItem disablePadding sx={{ paddingBottom: "7px" }}>
+            <NetworkCheckIcon
+              sx={{ color: getNetworkColor(network) }}
+              fontSize="small"
+            />
+            <Typography
+              variant="caption"
+              sx={{ color: getNetworkColor(network) }}
+            >
+              {formatStat(network.rttP50, (v) => `${v.toFixed(0)}ms`)}
+            </Typography>
+          </ListItem>
+        </Tooltip>
+      ) : null}
+      {totalDecodeErrors > 0 ? (
+        <Tooltip
+          title={
+            <>
+              {`${totalDecodeErrors} invalid values dropped`}
+              {Object.keys(decodeErrors).map((field) => (
+                <div key={field}>{`${field}: ${decodeErrors[field]}`}</div>
+              ))}
+            </>
+          }
+          placement="right"
+        >
+          <ListItem disablePadding sx={{ paddingBottom: "7px" }}>
+            <WarningAmberIcon sx={{ color: "orange" }} fontSize="small" />
+            <Typography variant="caption" sx={{ color: "orange" }}>
+              {totalDecodeErrors}
+            </Typography>
+          </ListItem>
+        </Tooltip>
+      ) : null}
     </List>
   );
 };
 
-export default Stats;
+export default React.memo(Stats);
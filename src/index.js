@@ -1,17 +1,5 @@
-/* eslint-disable no-undef */
-import React from "react";
-import { HashRouter } from "react-router-dom";
-import { createRoot } from "react-dom/client";
-import { Provider } from "react-redux";
-import { store } from "./state/store";
-import App from "./App";
+import { loadRuntimeConfig } from "./util/runtime-config";
 
-const container = document.getElementById("root");
-const root = createRoot(container);
-root.render(
-  <Provider store={store}>
-    <HashRouter>
-      <App />
-    </HashRouter>
-  </Provider>
-);
+// the store and components read the config when they are imported,
+// so they are only loaded once config.json has been merged in
+loadRuntimeConfig().then(() => import("./main"));
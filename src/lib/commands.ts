@@ -59,4 +59,42 @@ export const commands = {
    */
   gSetColorCorrection: "set_color_correction",
 
+  /**
+   * Set the format data frames are sent in (json or msgpack)
+   */
+  gSetFormat: "set_format",
+
+  /**
+   * Subscribe to data pushed by the server at a rate per command
+   */
+  gSubscribe: "subscribe",
+
+  /**
+   * Set the navigation goal the brain drives to, x and y from the field center (m) and heading (degrees)
+   */
+  gSetGoal: "set_goal",
+
+  /**
+   * Cancel the navigation goal
+   */
+  gClearGoal: "clear_goal",
+
+  /**
+   * Handshake for the protocol version, supported commands and robot identity
+   */
+  gHello: "hello",
+};
+
+/**
+ * Data topics components can subscribe to, with the command that gets each one
+ */
+export const topics = {
+  pos: commands.gPos,
+  detect: commands.gDetect,
+  stats: commands.gStats,
+  color: commands.gColor,
+  depth: commands.gDepth,
+  map: commands.gMap,
 };
+
+export type Topic = keyof typeof topics;
@@ -0,0 +1,44 @@
+import { CoverageGrid } from "./coverage-grid";
+
+describe("CoverageGrid", () => {
+  it("counts positions per cell", () => {
+    const grid = new CoverageGrid(0.5, 2);
+
+    grid.add(0.1, 0.1);
+    grid.add(0.4, 0.2);
+    grid.add(-0.1, 0.1);
+
+    expect(grid.cells()).toEqual([
+      { i: 0, j: 0, count: 2 },
+      { i: -1, j: 0, count: 1 },
+    ]);
+    expect(grid.max).toBe(2);
+  });
+
+  it("skips positions off the field", () => {
+    const grid = new CoverageGrid(0.5, 2);
+
+    grid.add(2, -2);
+    grid.add(1e5, 1e5);
+    grid.add(0, -2.1);
+    grid.add(NaN, 0);
+
+    expect(grid.cells()).toEqual([{ i: 4, j: -4, count: 1 }]);
+  });
+
+  it("changes its version whenever a cell changes", () => {
+    const grid = new CoverageGrid(0.5, 2);
+    const version = grid.version;
+
+    grid.add(10, 10);
+    expect(grid.version).toBe(version);
+    grid.add(0, 0);
+    expect(grid.version).toBeGreaterThan(version);
+
+    const added = grid.version;
+    grid.clear();
+    expect(grid.version).toBeGreaterThan(added);
+    expect(grid.cells()).toEqual([]);
+    expect(grid.max).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * A visited cell and how many position samples fell in it
+ */
+export interface CoverageCell {
+  /**
+   * Cell index from the field center, the cell spans [i, i + 1) * cellSize (m)
+   */
+  i: number;
+  j: number;
+  count: number;
+}
+
+/**
+ * Counts how often the robot was seen in each square cell of the field
+ *
+ * Grows with the visited area instead of covering the whole field up front, up to the
+ * field's edges so a bad position can't stretch it over kilometres
+ */
+export class CoverageGrid {
+  private counts: Map<string, CoverageCell>;
+  private _max: number;
+  private _version: number;
+  public readonly cellSize: number;
+  /**
+   * Positions further than this from the field center along x or y are not counted (m)
+   */
+  public extent: number;
+
+  /**
+   * Constructor
+   *
+   * @param cellSize Side of a cell (m)
+   * @param extent Half the side of the field (m)
+   */
+  constructor(cellSize: number, extent: number) {
+    this.counts = new Map();
+    this._max = 0;
+    this._version = 0;
+    this.cellSize = cellSize;
+    this.extent = extent;
+  }
+
+  /**
+   * Highest count of any cell
+   */
+  public get max(): number {
+    return this._max;
+  }
+
+  /**
+   * Incremented whenever a cell changes, so views only redraw the grid when it did
+   */
+  public get version(): number {
+    return this._version;
+  }
+
+  /**
+   * Counts a position sample, positions off the field are skipped
+   *
+   * @param x Distance from the field center (m)
+   * @param y Distance from the field center (m)
+   */
+  public add = (x: number, y: number) => {
+    if (!(Math.abs(x) <= this.extent && Math.abs(y) <= this.extent)) {
+      return;
+    }
+    const i = Math.floor(x / this.cellSize);
+    const j = Math.floor(y / this.cellSize);
+    const key = `${i},${j}`;
+    let cell = this.counts.get(key);
+    if (!cell) {
+      cell = { i, j, count: 0 };
+      this.counts.set(key, cell);
+    }
+    cell.count++;
+    this._max = Math.max(this._max, cell.count);
+    this._version++;
+  };
+
+  /**
+   * Every visited cell
+   *
+   * @returns CoverageCell[]
+   */
+  public cells = (): CoverageCell[] => {
+    return Array.from(this.counts.values());
+  };
+
+  /**
+   * Forgets every visit
+   */
+  public clear = () => {
+    this.counts.clear();
+    this._max = 0;
+    this._version++;
+  };
+}
@@ -0,0 +1,77 @@
+import { Convert } from "./data-response";
+
+describe("Convert.decodeJson", () => {
+  it("decodes a valid frame", () => {
+    const { response, invalidPaths } = Convert.decodeJson(
+      JSON.stringify({
+        Command: "g_pos",
+        RequestId: 4,
+        Position: { x: 1, y: 2, azimuth: 90 },
+      })
+    );
+
+    expect(response).toEqual({
+      command: "g_pos",
+      requestId: 4,
+      position: { x: 1, y: 2, azimuth: 90 },
+    });
+    expect(invalidPaths).toEqual([]);
+  });
+
+  it("drops invalid values and keeps the rest of the frame", () => {
+    const { response, invalidPaths } = Convert.decodeJson(
+      JSON.stringify({
+        Command: "g_stats",
+        Stats: { fps: 30, cpu_temp: "hot" },
+        Position: "nowhere",
+      })
+    );
+
+    expect(response).toEqual({ command: "g_stats", stats: { fps: 30 } });
+    expect(invalidPaths).toEqual(["Position", "Stats.cpu_temp"]);
+  });
+
+  it("drops the invalid fields of each detection", () => {
+    const { response, invalidPaths } = Convert.decodeJson(
+      JSON.stringify({
+        Detections: [
+          { class_id: 1, map_location: { x: [1], y: [2] } },
+          { class_id: "ball" },
+          { class_id: 0, depth: NaN },
+        ],
+      }).replace("null", "NaN")
+    );
+
+    expect(response.detections).toEqual([
+      { class: 1, mapLocation: { x: [1], y: [2] } },
+      {},
+      { class: 0, depth: -1 },
+    ]);
+    expect(invalidPaths).toEqual(["Detections[1].class_id"]);
+  });
+
+  it("reports a frame that isn't an object", () => {
+    expect(Convert.decodeJson("[1, 2]")).toEqual({ response: null, invalidPaths: [""] });
+  });
+});
+
+describe("Convert.decodeBinary", () => {
+  it("decodes a MessagePack frame", () => {
+    const text = (value: string) => [0xa0 | value.length, ...Buffer.from(value)];
+    // { "Command": "g_pos", "Position": { "x": 1 } }
+    const frame = new Uint8Array([
+      0x82,
+      ...text("Command"),
+      ...text("g_pos"),
+      ...text("Position"),
+      0x81,
+      ...text("x"),
+      0x01,
+    ]);
+
+    expect(Convert.decodeBinary(frame)).toEqual({
+      response: { command: "g_pos", position: { x: 1 } },
+      invalidPaths: [],
+    });
+  });
+});
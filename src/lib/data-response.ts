@@ -8,11 +8,23 @@
 //
 //   const dataResponse = Convert.toDataResponse(json);
 //
+//   or, for binary MessagePack frames:
+//
+//   const dataResponse = Convert.fromMessagePack(buffer);
+//
 // These functions will throw an error if the JSON doesn't
 // match the expected interface, even if the JSON is valid.
+//
+// Convert.decodeJson and Convert.decodeBinary are tolerant instead: invalid
+// values are dropped, the rest of the frame is kept and the paths of the
+// dropped values are returned alongside the response.
+
+import { decodeMessagePack } from "./msgpack";
 
 export interface DataResponse {
   command?: string;
+  requestId?: number;
+  error?: string;
   valid?: boolean;
   cameraOffset?: Offset;
   color?: Color;
@@ -23,6 +35,18 @@ export interface DataResponse {
   gpsOffset?: Offset;
   colorCorrection?: ColorCorrection;
   map?: GridMap;
+  hello?: Hello;
+  goal?: Goal;
+}
+
+export interface Hello {
+  version?: number;
+  commands?: string[];
+  classes?: string[];
+  robot?: string;
+  team?: string;
+  build?: string;
+  stream?: boolean;
 }
 
 export interface Offset {
@@ -34,6 +58,15 @@ export interface Offset {
   elevationOffset?: number;
 }
 
+/**
+ * Navigation goal, from the field center (m) with the heading clockwise from +y (degrees)
+ */
+export interface Goal {
+  x?: number;
+  y?: number;
+  heading?: number;
+}
+
 export interface ColorCorrection {
   h?: number;
   s?: number;
@@ -110,6 +143,27 @@ export class Convert {
   public static toDataResponse(json: string): DataResponse {
     return cast(JSON.parse(json.replace(/\bNaN\b/g, "-1")), r("DataResponse")); // if depth field is NaN set it to -1
   }
+
+  public static fromMessagePack(buffer: ArrayBuffer | Uint8Array): DataResponse {
+    return cast(decodeMessagePack(buffer), r("DataResponse"));
+  }
+
+  public static decodeJson(json: string): DecodeResult {
+    return tolerantCast(JSON.parse(json.replace(/\bNaN\b/g, "-1")));
+  }
+
+  public static decodeBinary(buffer: ArrayBuffer | Uint8Array): DecodeResult {
+    return tolerantCast(decodeMessagePack(buffer));
+  }
+}
+
+export interface DecodeResult {
+  response: DataResponse;
+  /**
+   * Paths of values that were dropped because they didn't match the expected type,
+   * e.g. `Stats.cpu_temp` or `Detections[2].depth`
+   */
+  invalidPaths: string[];
 }
 
 function invalidValue(typ: any, val: any, key: any, parent: any = ""): never {
@@ -262,6 +316,82 @@ function transform(
   return transformPrimitive(typ, val);
 }
 
+/**
+ * Same walk as transform, but invalid values are dropped and their paths recorded
+ * instead of throwing. Invalid array elements are removed from the array.
+ */
+function tolerantTransform(val: any, typ: any, path: string, invalid: string[]): any {
+  const drop = (): undefined => {
+    invalid.push(path);
+    return undefined;
+  };
+
+  while (typeof typ === "object" && typ !== null && typ.ref !== undefined) {
+    typ = typeMap[typ.ref];
+  }
+
+  if (typeof typ === "object" && typ !== null && typ.hasOwnProperty("unionMembers")) {
+    const members: any[] = typ.unionMembers;
+    if (val === undefined && members.includes(undefined)) return undefined;
+    for (const member of members) {
+      try {
+        return transform(val, member, jsonToJSProps);
+      } catch (_) {}
+    }
+    // no exact match, salvage what we can from a structured member
+    const structured = members.filter(
+      (member) =>
+        typeof member === "object" &&
+        member !== null &&
+        (member.ref !== undefined || member.hasOwnProperty("arrayItems"))
+    );
+    return structured.length === 1
+      ? tolerantTransform(val, structured[0], path, invalid)
+      : drop();
+  }
+
+  if (typeof typ === "object" && typ !== null && typ.hasOwnProperty("arrayItems")) {
+    if (!Array.isArray(val)) return drop();
+    const result: any[] = [];
+    val.forEach((el, index) => {
+      const count = invalid.length;
+      const item = tolerantTransform(el, typ.arrayItems, `${path}[${index}]`, invalid);
+      if (item !== undefined || invalid.length === count) result.push(item);
+    });
+    return result;
+  }
+
+  if (typeof typ === "object" && typ !== null && typ.hasOwnProperty("props")) {
+    if (val === null || typeof val !== "object" || Array.isArray(val)) return drop();
+    const props = jsonToJSProps(typ);
+    const result: any = {};
+    Object.getOwnPropertyNames(props).forEach((key) => {
+      const prop = props[key];
+      const v = Object.prototype.hasOwnProperty.call(val, key) ? val[key] : undefined;
+      const item = tolerantTransform(v, prop.typ, path ? `${path}.${key}` : key, invalid);
+      if (item !== undefined) result[prop.key] = item;
+    });
+    Object.getOwnPropertyNames(val).forEach((key) => {
+      if (!Object.prototype.hasOwnProperty.call(props, key)) {
+        result[key] = val[key];
+      }
+    });
+    return result;
+  }
+
+  try {
+    return transform(val, typ, jsonToJSProps);
+  } catch (_) {
+    return drop();
+  }
+}
+
+function tolerantCast(val: any): DecodeResult {
+  const invalidPaths: string[] = [];
+  const response = tolerantTransform(val, r("DataResponse"), "", invalidPaths);
+  return { response: response ?? null, invalidPaths };
+}
+
 function cast<T>(val: any, typ: any): T {
   return transform(val, typ, jsonToJSProps);
 }
@@ -298,6 +428,8 @@ const typeMap: any = {
   DataResponse: o(
     [
       { json: "Command", js: "command", typ: u(undefined, "") },
+      { json: "RequestId", js: "requestId", typ: u(undefined, 0) },
+      { json: "Error", js: "error", typ: u(undefined, "") },
       { json: "Valid", js: "valid", typ: u(undefined, true) },
       {
         json: "CameraOffset",
@@ -316,6 +448,20 @@ const typeMap: any = {
       { json: "GpsOffset", js: "gpsOffset", typ: u(undefined, r("Offset")) },
       { json: "ColorCorrection", js: "colorCorrection", typ: u(undefined, r("ColorCorrection"))},
       { json: "Map", js: "map", typ: u(undefined, r("GridMap")) },
+      { json: "Hello", js: "hello", typ: u(undefined, r("Hello")) },
+      { json: "Goal", js: "goal", typ: u(undefined, r("Goal")) },
+    ],
+    false
+  ),
+  Hello: o(
+    [
+      { json: "version", js: "version", typ: u(undefined, 0) },
+      { json: "commands", js: "commands", typ: u(undefined, a("")) },
+      { json: "classes", js: "classes", typ: u(undefined, a("")) },
+      { json: "robot", js: "robot", typ: u(undefined, "") },
+      { json: "team", js: "team", typ: u(undefined, "") },
+      { json: "build", js: "build", typ: u(undefined, "") },
+      { json: "stream", js: "stream", typ: u(undefined, true) },
     ],
     false
   ),
@@ -330,6 +476,14 @@ const typeMap: any = {
     ],
     false
   ),
+  Goal: o(
+    [
+      { json: "x", js: "x", typ: u(undefined, 3.14) },
+      { json: "y", js: "y", typ: u(undefined, 3.14) },
+      { json: "heading", js: "heading", typ: u(undefined, 3.14) },
+    ],
+    false
+  ),
   ColorCorrection: o(
     [
       { json: "h", js: "h", typ: u(undefined, 0)},
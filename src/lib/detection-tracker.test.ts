@@ -0,0 +1,92 @@
+import { Detection } from "./data-response";
+import { DetectionTracker } from "./detection-tracker";
+
+const options = { maxDistance: 0.3, smoothing: 0, minHits: 2, keepAlive: 500 };
+
+/**
+ * Detection at a map position
+ *
+ * @param x Distance from the field center (m)
+ * @param y Distance from the field center (m)
+ * @param classId Element class
+ * @returns Detection
+ */
+const at = (x: number, y: number, classId = 0): Detection => ({
+  class: classId,
+  prob: 0.9,
+  depth: 1,
+  mapLocation: { x: [x], y: [y], z: [0] },
+});
+
+describe("DetectionTracker", () => {
+  it("shows a track once it was detected often enough", () => {
+    const tracker = new DetectionTracker(options);
+
+    expect(tracker.update([at(0, 0)], 0)).toEqual([]);
+    const tracks = tracker.update([at(0.1, 0)], 100);
+
+    expect(tracks).toHaveLength(1);
+    expect(tracks[0]).toMatchObject({ id: 1, stale: false });
+    expect(tracks[0].mapLocation.x).toEqual([0.1]);
+  });
+
+  it("keeps ids by pairing the closest detections of the same class", () => {
+    const tracker = new DetectionTracker(options);
+    tracker.update([at(0, 0), at(1, 0), at(0, 0, 1)], 0);
+
+    const tracks = tracker.update([at(0.05, 0, 1), at(0.95, 0), at(0.1, 0)], 100);
+
+    const idAt = (x: number, classId: number) =>
+      tracks.find((t) => t.class === classId && t.mapLocation.x[0] === x)?.id;
+    expect(idAt(0.1, 0)).toBe(1);
+    expect(idAt(0.95, 0)).toBe(2);
+    expect(idAt(0.05, 1)).toBe(3);
+  });
+
+  it("starts a new track for a detection too far from the others", () => {
+    const tracker = new DetectionTracker(options);
+    tracker.update([at(0, 0)], 0);
+    tracker.update([at(0, 0)], 100);
+
+    const tracks = tracker.update([at(1, 0)], 200);
+
+    // the new track isn't shown yet, the old one is kept through the missed frame
+    expect(tracks).toEqual([expect.objectContaining({ id: 1, stale: true })]);
+  });
+
+  it("smooths the position of a track", () => {
+    const tracker = new DetectionTracker({ ...options, smoothing: 0.5 });
+    tracker.update([at(0, 0)], 0);
+
+    const [track] = tracker.update([at(0.2, 0)], 100);
+
+    expect(track.mapLocation.x[0]).toBeCloseTo(0.1);
+  });
+
+  it("drops tracks missed for longer than the keep alive", () => {
+    const tracker = new DetectionTracker(options);
+    tracker.update([at(0, 0)], 0);
+    tracker.update([at(0, 0)], 100);
+
+    expect(tracker.update([], 600)).toHaveLength(1);
+    expect(tracker.update([], 601)).toEqual([]);
+  });
+
+  it("expires tracks when no more frames arrive", () => {
+    const tracker = new DetectionTracker(options);
+    tracker.update([at(0, 0)], 0);
+    const shown = tracker.update([at(0, 0)], 100);
+
+    expect(tracker.expire(600)).toBe(shown);
+    expect(tracker.expire(601)).toEqual([]);
+    expect(tracker.current()).toEqual([]);
+  });
+
+  it("ignores detections without a map position", () => {
+    const tracker = new DetectionTracker({ ...options, minHits: 1 });
+
+    const tracks = tracker.update([{ ...at(0, 0), mapLocation: undefined }], 0);
+
+    expect(tracks).toEqual([]);
+  });
+});
@@ -0,0 +1,223 @@
+import { Detection } from "./data-response";
+
+/**
+ * A detection followed across frames
+ */
+export interface TrackedDetection extends Detection {
+  /**
+   * Stable id of the track, unique for the session
+   */
+  id: number;
+  /**
+   * The track was missed in the latest frame and shows where it was last seen
+   */
+  stale: boolean;
+}
+
+/**
+ * A detection as drawn, raw detections have no id and are never stale
+ */
+export type ShownDetection = Detection & Partial<Pick<TrackedDetection, "id" | "stale">>;
+
+export interface TrackerOptions {
+  /**
+   * Furthest a detection can be from a track of its class to continue it (m)
+   */
+  maxDistance: number;
+  /**
+   * How much of the previous position is kept each frame, 0 uses the raw detections
+   */
+  smoothing: number;
+  /**
+   * Detections a track needs before it is shown
+   */
+  minHits: number;
+  /**
+   * How long a track is kept through missed frames (ms)
+   */
+  keepAlive: number;
+}
+
+interface Track {
+  id: number;
+  detection: Detection;
+  hits: number;
+  lastSeen: number;
+}
+
+/**
+ * Map position of a detection, null when the decoder dropped it
+ *
+ * @param detection Detection
+ * @returns { x: number; y: number }
+ */
+const positionOf = (detection: Detection): { x: number; y: number } => {
+  const x = detection.mapLocation?.x?.[0];
+  const y = detection.mapLocation?.y?.[0];
+  return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : null;
+};
+
+/**
+ * Associates detections across frames by class and map position, so each element
+ * keeps an id, moves smoothly and doesn't flicker when it is missed for a frame
+ */
+export class DetectionTracker {
+  private tracks: Track[];
+  private nextId: number;
+  private shown: TrackedDetection[];
+  private options: TrackerOptions;
+
+  /**
+   * Constructor
+   *
+   * @param options Tracker options
+   */
+  constructor(options: TrackerOptions) {
+    this.tracks = [];
+    this.nextId = 1;
+    this.shown = [];
+    this.options = options;
+  }
+
+  /**
+   * Tracks to show, the same array until the next update
+   *
+   * @returns TrackedDetection[]
+   */
+  public current = (): TrackedDetection[] => {
+    return this.shown;
+  };
+
+  /**
+   * Moves the tracks on to the detections of a new frame
+   *
+   * @param detections Detections in the frame
+   * @param t Time the frame was received (ms since epoch)
+   * @returns TrackedDetection[] The tracks to show
+   */
+  public update = (detections: Detection[], t: number): TrackedDetection[] => {
+    const { maxDistance, keepAlive } = this.options;
+    const candidates = detections.filter((detection) => positionOf(detection));
+
+    // pair the closest track and detection first, each can only be used once
+    const pairs: { track: Track; detection: Detection; distance: number }[] = [];
+    this.tracks.forEach((track) => {
+      const from = positionOf(track.detection);
+      candidates.forEach((detection) => {
+        if (detection.class !== track.detection.class) {
+          return;
+        }
+        const to = positionOf(detection);
+        const distance = Math.hypot(to.x - from.x, to.y - from.y);
+        if (distance <= maxDistance) {
+          pairs.push({ track, detection, distance });
+        }
+      });
+    });
+    pairs.sort((a, b) => a.distance - b.distance);
+
+    const matchedTracks = new Set<Track>();
+    const matchedDetections = new Set<Detection>();
+    pairs.forEach(({ track, detection }) => {
+      if (matchedTracks.has(track) || matchedDetections.has(detection)) {
+        return;
+      }
+      matchedTracks.add(track);
+      matchedDetections.add(detection);
+      track.detection = this.smooth(track.detection, detection);
+      track.hits++;
+      track.lastSeen = t;
+    });
+
+    this.tracks = this.tracks.filter(
+      (track) => matchedTracks.has(track) || t - track.lastSeen <= keepAlive
+    );
+    candidates
+      .filter((detection) => !matchedDetections.has(detection))
+      .forEach((detection) => {
+        this.tracks.push({ id: this.nextId++, detection, hits: 1, lastSeen: t });
+      });
+
+    return this.show(t);
+  };
+
+  /**
+   * Drops the tracks that weren't seen for too long, for when frames stop arriving
+   * and `update` isn't called
+   *
+   * @param t Current time (ms since epoch)
+   * @returns TrackedDetection[] The tracks to show
+   */
+  public expire = (t: number): TrackedDetection[] => {
+    const { keepAlive } = this.options;
+    const tracks = this.tracks.filter((track) => t - track.lastSeen <= keepAlive);
+    if (tracks.length === this.tracks.length) {
+      return this.shown;
+    }
+    this.tracks = tracks;
+    return this.show(t);
+  };
+
+  /**
+   * Updates the tracks to show
+   *
+   * @param t Time of the latest frame (ms since epoch)
+   * @returns TrackedDetection[]
+   */
+  private show = (t: number): TrackedDetection[] => {
+    this.shown = this.tracks
+      .filter((track) => track.hits >= this.options.minHits)
+      .map((track) => ({
+        ...track.detection,
+        id: track.id,
+        stale: track.lastSeen !== t,
+      }));
+    return this.shown;
+  };
+
+  /**
+   * Forgets every track
+   */
+  public clear = () => {
+    this.tracks = [];
+    this.shown = [];
+  };
+
+  /**
+   * Blends a new detection into a track's detection
+   *
+   * @param previous Smoothed detection of the track
+   * @param next Detection in the new frame
+   * @returns Detection
+   */
+  private smooth = (previous: Detection, next: Detection): Detection => {
+    const k = this.options.smoothing;
+    const blend = (a: number, b: number) =>
+      Number.isFinite(a) && Number.isFinite(b) ? a * k + b * (1 - k) : b;
+
+    const map = next.mapLocation;
+    const screen = next.screenLocation;
+    return {
+      ...next,
+      // depth is -1 when unknown, which mustn't be blended with real distances
+      depth:
+        previous.depth >= 0 && next.depth >= 0
+          ? blend(previous.depth, next.depth)
+          : next.depth,
+      mapLocation: {
+        x: [blend(previous.mapLocation.x[0], map.x[0])],
+        y: [blend(previous.mapLocation.y[0], map.y[0])],
+        z: map.z?.length ? [blend(previous.mapLocation.z?.[0], map.z[0])] : map.z,
+      },
+      screenLocation:
+        screen && previous.screenLocation
+          ? {
+              x: blend(previous.screenLocation.x, screen.x),
+              y: blend(previous.screenLocation.y, screen.y),
+              width: blend(previous.screenLocation.width, screen.width),
+              height: blend(previous.screenLocation.height, screen.height),
+            }
+          : screen,
+    };
+  };
+}
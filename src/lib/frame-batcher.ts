@@ -0,0 +1,43 @@
+/**
+ * Merges values pushed between animation frames and hands the result over once per frame
+ *
+ * Keeps the store from updating, and the app from re-rendering, more often than the browser paints
+ *
+ * @param merge Merges a new value into the pending one
+ * @param flush Receives the merged value on the next animation frame
+ * @returns (value: T) => void
+ */
+export const batchPerAnimationFrame = <T>(
+  merge: (pending: T, value: T) => T,
+  flush: (value: T) => void
+): ((value: T) => void) => {
+  let pending: T = null;
+  let frame: number = null;
+  let timer: ReturnType<typeof setTimeout> = null;
+
+  const run = () => {
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+    }
+    clearTimeout(timer);
+    frame = null;
+    timer = null;
+    const value = pending;
+    pending = null;
+    flush(value);
+  };
+
+  return (value: T) => {
+    pending = pending === null ? value : merge(pending, value);
+    // browsers don't run animation frames in hidden tabs, where values would pile up
+    // until the tab is shown again, so these are flushed on a timer instead
+    const hidden = typeof document !== "undefined" && document.hidden;
+    if (hidden || typeof requestAnimationFrame === "undefined") {
+      if (timer === null) {
+        timer = setTimeout(run, 16);
+      }
+    } else if (frame === null && timer === null) {
+      frame = requestAnimationFrame(run);
+    }
+  };
+};
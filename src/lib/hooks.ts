@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { ElementClass } from "./types";
 
 function getWindowDimensions() {
   const { innerWidth: width, innerHeight: height } = window;
@@ -24,3 +25,38 @@ export default function useWindowDimensions() {
 
   return windowDimensions;
 }
+
+/**
+ * Loads the texture of every element class, classes appear once their texture has loaded
+ *
+ * @param elements Element classes by class id
+ * @returns { [classId: string]: HTMLImageElement }
+ */
+export function useElementTextures(elements: {
+  [classId: string]: ElementClass;
+}) {
+  const [textures, setTextures] = useState<{
+    [classId: string]: HTMLImageElement;
+  }>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    const loaded: { [classId: string]: HTMLImageElement } = {};
+    setTextures({});
+    Object.entries(elements).forEach(([classId, element]) => {
+      const image = new window.Image();
+      image.onload = () => {
+        if (!cancelled) {
+          loaded[classId] = image;
+          setTextures({ ...loaded });
+        }
+      };
+      image.src = element.texture;
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [elements]);
+
+  return textures;
+}
@@ -0,0 +1,128 @@
+import { Decoder } from "@msgpack/msgpack";
+
+/**
+ * Typed array constructors for the numpy dtypes the brain sends
+ */
+const numpyTypes: {
+  [dtype: string]: {
+    new (buffer: ArrayBuffer): ArrayLike<number>;
+  };
+} = {
+  b1: Uint8Array,
+  i1: Int8Array,
+  u1: Uint8Array,
+  i2: Int16Array,
+  u2: Uint16Array,
+  i4: Int32Array,
+  u4: Uint32Array,
+  f4: Float32Array,
+  f8: Float64Array,
+};
+
+const textDecoder = new TextDecoder();
+
+/**
+ * msgpack-numpy packs its map keys as binary, so they are converted back to strings
+ */
+const decoder = new Decoder({
+  mapKeyConverter: (key: unknown) => {
+    if (typeof key === "string" || typeof key === "number") {
+      return key;
+    }
+    if (key instanceof Uint8Array) {
+      return textDecoder.decode(key);
+    }
+    throw new Error(`Unsupported map key type ${typeof key}`);
+  },
+});
+
+/**
+ * Is the value a numpy array or scalar encoded by msgpack-numpy
+ *
+ * @param val Decoded MessagePack value
+ * @returns boolean
+ */
+const isNumpy = (val: { [key: string]: unknown }): boolean => {
+  return (
+    typeof val.nd === "boolean" &&
+    typeof val.type === "string" &&
+    val.data instanceof Uint8Array
+  );
+};
+
+/**
+ * Converts a msgpack-numpy array (or scalar) into plain numbers
+ *
+ * @param val msgpack-numpy encoded value
+ * @returns number[] | number
+ */
+const fromNumpy = (val: { [key: string]: unknown }): number[] | number => {
+  const dtype = val.type as string;
+  const bytes = val.data as Uint8Array;
+  const ctor = numpyTypes[dtype.slice(1)];
+  if (!ctor || dtype[0] === ">") {
+    throw new Error(`Unsupported numpy dtype ${dtype}`);
+  }
+  // copy into a fresh buffer so the typed array is aligned
+  const values = Array.from(new ctor(bytes.slice().buffer), (v) =>
+    isNaN(v) ? -1 : v
+  );
+  return val.nd ? values : values[0];
+};
+
+/**
+ * Converts binary image data to the base64 string the JSON protocol uses
+ *
+ * @param bytes Raw bytes
+ * @returns string
+ */
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Walks a decoded MessagePack value and normalises it to match the JSON protocol
+ *
+ * numpy arrays become number arrays, binary data becomes base64 and NaN becomes -1
+ *
+ * @param val Decoded MessagePack value
+ * @returns unknown
+ */
+const normalise = (val: unknown): unknown => {
+  if (typeof val === "number") {
+    return isNaN(val) ? -1 : val; // same as the NaN replacement for JSON frames
+  }
+  if (val instanceof Uint8Array) {
+    return toBase64(val);
+  }
+  if (Array.isArray(val)) {
+    return val.map(normalise);
+  }
+  if (val !== null && typeof val === "object") {
+    const obj = val as { [key: string]: unknown };
+    if (isNumpy(obj)) {
+      return fromNumpy(obj);
+    }
+    const result: { [key: string]: unknown } = {};
+    Object.keys(obj).forEach((key) => {
+      result[key] = normalise(obj[key]);
+    });
+    return result;
+  }
+  return val;
+};
+
+/**
+ * Decodes a binary MessagePack frame into the same plain object a JSON frame parses to
+ *
+ * @param buffer Binary frame received over the websocket
+ * @returns unknown
+ */
+export const decodeMessagePack = (buffer: ArrayBuffer | Uint8Array): unknown => {
+  return normalise(decoder.decode(buffer));
+};
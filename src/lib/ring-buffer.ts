@@ -0,0 +1,103 @@
+import { Sample } from "./samples";
+
+/**
+ * Fixed size buffer of timestamped samples that overwrites the oldest sample when full
+ *
+ * Samples are stored in place, so pushing never copies the buffer
+ */
+export class RingBuffer<T> {
+  private samples: Sample<T>[];
+  private start: number;
+  private count: number;
+  public readonly capacity: number;
+
+  /**
+   * Constructor
+   *
+   * @param capacity Maximum number of samples kept
+   */
+  constructor(capacity: number) {
+    this.samples = new Array(capacity);
+    this.start = 0;
+    this.count = 0;
+    this.capacity = capacity;
+  }
+
+  /**
+   * Number of samples in the buffer
+   */
+  public get length(): number {
+    return this.count;
+  }
+
+  /**
+   * Adds a sample, dropping the oldest one if the buffer is full
+   *
+   * @param t Time the value was received (ms since epoch)
+   * @param value Value
+   */
+  public push = (t: number, value: T) => {
+    const index = (this.start + this.count) % this.capacity;
+    this.samples[index] = { t, value };
+    if (this.count < this.capacity) {
+      this.count++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  };
+
+  /**
+   * Sample at a position, 0 being the oldest
+   *
+   * @param i Position
+   * @returns Sample<T>
+   */
+  public at = (i: number): Sample<T> => {
+    return i >= 0 && i < this.count
+      ? this.samples[(this.start + i) % this.capacity]
+      : undefined;
+  };
+
+  /**
+   * Newest sample
+   *
+   * @returns Sample<T>
+   */
+  public latest = (): Sample<T> => {
+    return this.at(this.count - 1);
+  };
+
+  /**
+   * Samples received at or after a time, oldest first
+   *
+   * @param t Time (ms since epoch)
+   * @returns Sample<T>[]
+   */
+  public since = (t: number): Sample<T>[] => {
+    // samples are in time order, so search for the first one in the window
+    let low = 0;
+    let high = this.count;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.at(mid).t < t) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    const result: Sample<T>[] = [];
+    for (let i = low; i < this.count; i++) {
+      result.push(this.at(i));
+    }
+    return result;
+  };
+
+  /**
+   * Removes every sample
+   */
+  public clear = () => {
+    this.samples = new Array(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  };
+}
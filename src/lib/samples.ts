@@ -0,0 +1,44 @@
+import { DataResponse, Detection, Position, Stats } from "./data-response";
+
+/**
+ * A value with the time it was received (ms since epoch)
+ */
+export interface Sample<T> {
+  t: number;
+  value: T;
+}
+
+/**
+ * The parts of one frame kept in the history, with the time the frame was received
+ */
+export interface FrameSample {
+  t: number;
+  position?: Position;
+  detections?: Detection[];
+  stats?: Stats;
+}
+
+/**
+ * Takes the history sample of a frame
+ *
+ * @param response Frame
+ * @param t Time the frame was received (ms since epoch)
+ * @returns FrameSample, null when the frame has nothing the history keeps
+ */
+export const sampleOf = (response: DataResponse, t: number): FrameSample => {
+  const { position, detections, stats } = response;
+  if (!position && !detections && !stats) {
+    return null;
+  }
+  const sample: FrameSample = { t };
+  if (position) {
+    sample.position = position;
+  }
+  if (detections) {
+    sample.detections = detections;
+  }
+  if (stats) {
+    sample.stats = stats;
+  }
+  return sample;
+};
@@ -0,0 +1,43 @@
+/**
+ * Version of the recorded session file format
+ */
+export const SESSION_FORMAT_VERSION = 1;
+
+/**
+ * Data service events that are captured in a session recording
+ */
+export const sessionEventTypes = [
+  "message",
+  "getCameraOffset",
+  "getGpsOffset",
+  "getColorCorrection",
+  "setCameraOffset",
+  "setGpsOffset",
+  "setColorCorrection",
+  "setGoal",
+  "clearGoal",
+] as const;
+
+export type SessionEventType = (typeof sessionEventTypes)[number];
+
+/**
+ * First line of a session file
+ */
+export interface SessionHeader {
+  type: "header";
+  version: number;
+  startedAt: number;
+  host: string;
+}
+
+/**
+ * One captured event, every line after the header
+ */
+export interface SessionRecord {
+  /**
+   * Receive time (ms since epoch)
+   */
+  t: number;
+  type: SessionEventType;
+  data: unknown;
+}
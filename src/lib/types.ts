@@ -8,6 +8,19 @@ export enum Direction {
   Y = 1,
 }
 
+export enum TransportMode {
+  Polling = 0,
+  Subscription = 1,
+}
+
+export enum ConnectionState {
+  Connecting = "connecting",
+  Open = "open",
+  Degraded = "degraded",
+  Reconnecting = "reconnecting",
+  Closed = "closed",
+}
+
 export interface Theme {
   id: string;
   componentBackground: string;
@@ -15,3 +28,136 @@ export interface Theme {
   control: string;
   controlHover: string;
 }
+
+/**
+ * Saved connection settings for one robot
+ */
+/**
+ * Websocket server and camera stream of a robot
+ */
+export interface Host {
+  ip: string;
+  port: string;
+  streamPort: string;
+  streamPath: string;
+}
+
+export interface ConnectionProfile extends Host {
+  name: string;
+  rates: { [command: string]: number };
+  /**
+   * Missing from profiles saved before orientations were added
+   */
+  orientation?: FieldOrientation;
+}
+
+/**
+ * How the field is turned on screen to match where the drivers stand
+ */
+export interface FieldOrientation {
+  /**
+   * Clockwise rotation, a multiple of 90 (degrees)
+   */
+  rotation: number;
+  /**
+   * Flip the field left to right
+   */
+  mirror: boolean;
+}
+
+/**
+ * A class of game element the robot detects
+ */
+export interface ElementClass {
+  name: string;
+  texture: string;
+  /**
+   * Physical size of the element (m)
+   */
+  width: number;
+  height: number;
+  /**
+   * How much larger than life the element is drawn on the field
+   */
+  scale: number;
+  borderColor: string;
+  backgroundColor: string;
+}
+
+/**
+ * An object that doesn't move during a match, e.g. a goal, drawn on the field view
+ */
+export interface FieldObject {
+  name: string;
+  /**
+   * Center of the object from the center of the field (m)
+   */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /**
+   * Rotation clockwise (degrees)
+   */
+  rotation: number;
+  color: string;
+}
+
+/**
+ * Everything about a season's game the dashboard draws
+ */
+export interface GameProfile {
+  name: string;
+  field: {
+    texture: string;
+    /**
+     * Length of a side of the square field (m)
+     */
+    dimension: number;
+  };
+  /**
+   * Element classes by the class id the robot reports
+   */
+  elements: { [classId: string]: ElementClass };
+  fieldObjects: FieldObject[];
+}
+
+export enum TrailColoring {
+  None = "none",
+  Speed = "speed",
+  Time = "time",
+}
+
+export enum FieldTool {
+  None = "none",
+  Measure = "measure",
+  Pin = "pin",
+  Note = "note",
+  Goal = "goal",
+}
+
+/**
+ * A labelled point placed on the field, from the field center (m)
+ */
+export interface FieldPin {
+  id: number;
+  x: number;
+  y: number;
+  label: string;
+}
+
+/**
+ * A freehand note drawn on the field, x and y pairs from the field center (m)
+ */
+export interface FieldNote {
+  id: number;
+  points: number[];
+}
+
+/**
+ * Outcome of a request to the brain, shown to the user in a snackbar
+ */
+export interface RequestResult {
+  severity: "success" | "info" | "warning" | "error";
+  message: string;
+}
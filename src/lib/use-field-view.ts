@@ -0,0 +1,232 @@
+import { useRef, useState } from "react";
+import Konva from "konva";
+import { KonvaEventObject } from "konva/lib/Node";
+import { Units } from "./math";
+import { config } from "../util/config";
+import { FieldOrientation } from "./types";
+
+/**
+ * Where the field stage is drawn: the screen position of the field center, zoom, rotation
+ * and whether it is mirrored
+ */
+export interface FieldView {
+  x: number;
+  y: number;
+  zoom: number;
+  /**
+   * Clockwise rotation (degrees)
+   */
+  rotation: number;
+  /**
+   * Flipped left to right before rotating
+   */
+  mirror: boolean;
+}
+
+/**
+ * A point on the field stage to keep centered and the heading to keep pointing up,
+ * a null heading keeps the field orientation
+ */
+export interface FollowTarget {
+  x: number;
+  y: number;
+  heading: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Transform from field stage coordinates to the screen for a view
+ *
+ * @param view Field view
+ * @returns Konva.Transform
+ */
+const transformOf = (view: FieldView): Konva.Transform => {
+  const transform = new Konva.Transform();
+  transform.translate(view.x, view.y);
+  transform.rotate(Units.deg2rad(view.rotation));
+  transform.scale(view.mirror ? -view.zoom : view.zoom, view.zoom);
+  return transform;
+};
+
+/**
+ * View that draws a stage point at an anchor on the screen
+ *
+ * @param point Point on the field stage
+ * @param anchor Point on the screen
+ * @param zoom Zoom of the view
+ * @param rotation Rotation of the view (degrees)
+ * @param mirror Whether the view is mirrored
+ * @returns FieldView
+ */
+const placeAt = (
+  point: Point,
+  anchor: Point,
+  zoom: number,
+  rotation: number,
+  mirror: boolean
+): FieldView => {
+  const offset = transformOf({ x: 0, y: 0, zoom, rotation, mirror }).point(point);
+  return { x: anchor.x - offset.x, y: anchor.y - offset.y, zoom, rotation, mirror };
+};
+
+const clampZoom = (zoom: number) =>
+  Math.min(config.field.zoom.max, Math.max(config.field.zoom.min, zoom));
+
+/**
+ * Zoom, pan and follow state for the field stage
+ *
+ * Every layer is drawn on the one stage, so they all stay registered to the field
+ * whatever the view, and the field orientation turns them all together. Wheel and
+ * pinch zoom around the pointer, dragging pans, a target keeps the view centered
+ * on it and rotated to its heading
+ *
+ * @param width Width of the field stage (px)
+ * @param height Height of the field stage (px)
+ * @param target Point to follow, null to pan freely
+ * @param orientation Field orientation for the drivers' side
+ * @returns Stage props and view controls
+ */
+const useFieldView = (
+  width: number,
+  height: number,
+  target: FollowTarget,
+  orientation: FieldOrientation
+) => {
+  const [view, setView] = useState<FieldView>(null);
+  const [followed, setFollowed] = useState<boolean>(false);
+  const [oriented, setOriented] = useState<FieldOrientation>(orientation);
+  const pinchDistance = useRef<number>(null);
+  const shownRef = useRef<FieldView>(null);
+
+  const center = { x: width / 2, y: height / 2 };
+  // an untouched view follows the stage size
+  const current = view ?? {
+    ...center,
+    zoom: 1,
+    rotation: orientation.rotation,
+    mirror: orientation.mirror,
+  };
+  const following = target !== null;
+
+  // a new orientation starts from the whole field again
+  if (
+    orientation.rotation !== oriented.rotation ||
+    orientation.mirror !== oriented.mirror
+  ) {
+    setOriented(orientation);
+    shownRef.current = null;
+    setView(null);
+  }
+
+  // when following stops the view stays where following left it
+  if (following !== followed) {
+    setFollowed(following);
+    if (!following && shownRef.current) {
+      setView(shownRef.current);
+    }
+  }
+
+  let followRotation = orientation.rotation;
+  if (following && target.heading !== null) {
+    // a mirrored view turns the other way, so the heading is undone the other way too
+    followRotation = orientation.mirror ? target.heading : -target.heading;
+  }
+  const shown = following
+    ? placeAt(target, center, current.zoom, followRotation, orientation.mirror)
+    : current;
+  shownRef.current = shown;
+
+  /**
+   * Zooms by a factor keeping the stage point under an anchor in place
+   *
+   * @param anchor Point on the screen
+   * @param factor Zoom factor
+   */
+  const zoomAt = (anchor: Point, factor: number) => {
+    // read the latest view, pinches can move faster than renders
+    const latest = shownRef.current;
+    const zoom = clampZoom(latest.zoom * factor);
+    const point = transformOf(latest).invert().point(anchor);
+    const next = placeAt(point, anchor, zoom, latest.rotation, latest.mirror);
+    shownRef.current = next;
+    setView(following ? { ...current, zoom } : next);
+  };
+
+  const onWheel = (e: KonvaEventObject<WheelEvent>) => {
+    e.evt.preventDefault();
+    const pointer = e.target.getStage().getPointerPosition() ?? center;
+    zoomAt(
+      pointer,
+      e.evt.deltaY < 0 ? config.field.zoom.step : 1 / config.field.zoom.step
+    );
+  };
+
+  const onTouchMove = (e: KonvaEventObject<TouchEvent>) => {
+    const [a, b] = Array.from(e.evt.touches);
+    if (!a || !b) {
+      pinchDistance.current = null;
+      return;
+    }
+    e.evt.preventDefault();
+    const stage = e.target.getStage();
+    stage.stopDrag();
+    const rect = stage.container().getBoundingClientRect();
+    const anchor = {
+      x: (a.clientX + b.clientX) / 2 - rect.left,
+      y: (a.clientY + b.clientY) / 2 - rect.top,
+    };
+    const distance = Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+    if (pinchDistance.current) {
+      zoomAt(anchor, distance / pinchDistance.current);
+    }
+    pinchDistance.current = distance;
+  };
+
+  const onTouchEnd = () => {
+    pinchDistance.current = null;
+  };
+
+  const onDragEnd = (e: KonvaEventObject<DragEvent>) => {
+    const stage = e.target.getStage();
+    if (e.target === stage) {
+      setView({ ...shownRef.current, x: stage.x(), y: stage.y() });
+    }
+  };
+
+  /**
+   * Back to the whole field in the field orientation
+   */
+  const reset = () => {
+    shownRef.current = null;
+    setView(null);
+  };
+
+  return {
+    stageProps: {
+      x: shown.x,
+      y: shown.y,
+      scaleX: shown.mirror ? -shown.zoom : shown.zoom,
+      scaleY: shown.zoom,
+      rotation: shown.rotation,
+      draggable: !following,
+      onWheel,
+      onTouchMove,
+      onTouchEnd,
+      onDragEnd,
+    },
+    zoom: shown.zoom,
+    /**
+     * Rotation and mirroring the field is shown with, including the followed heading
+     */
+    orientation: { rotation: shown.rotation, mirror: shown.mirror },
+    zoomIn: () => zoomAt(center, config.field.zoom.step),
+    zoomOut: () => zoomAt(center, 1 / config.field.zoom.step),
+    reset,
+  };
+};
+
+export default useFieldView;
@@ -0,0 +1,71 @@
+import { Detection, Position } from "./data-response";
+import { WorldMemory } from "./world-memory";
+
+const options = { matchDistance: 0.3, maxAge: 10, clearRange: 2, fov: 60 };
+
+/**
+ * Detection at a map position
+ *
+ * @param x Distance from the field center (m)
+ * @param y Distance from the field center (m)
+ * @returns Detection
+ */
+const at = (x: number, y: number): Detection => ({
+  class: 0,
+  mapLocation: { x: [x], y: [y] },
+});
+
+/**
+ * Robot at the field center, azimuth 0 looks along +y
+ */
+const lookingAt = (azimuth: number): Position => ({ x: 0, y: 0, azimuth });
+
+describe("WorldMemory", () => {
+  it("remembers elements after they leave the view", () => {
+    const memory = new WorldMemory(options);
+    memory.update([at(0, 1)], lookingAt(0), 0);
+
+    memory.update([], lookingAt(180), 1000);
+
+    expect(memory.current()).toEqual([{ class: 0, x: 0, y: 1, lastSeen: 0 }]);
+    expect(memory.updatedAt).toBe(1000);
+  });
+
+  it("moves an element detected again close to where it was", () => {
+    const memory = new WorldMemory(options);
+    memory.update([at(0, 1)], lookingAt(0), 0);
+
+    memory.update([at(0.2, 1)], lookingAt(0), 1000);
+
+    expect(memory.current()).toEqual([{ class: 0, x: 0.2, y: 1, lastSeen: 1000 }]);
+  });
+
+  it("forgets elements that are in view but no longer detected", () => {
+    const memory = new WorldMemory(options);
+    memory.update([at(0, 1), at(0, 3)], lookingAt(0), 0);
+
+    memory.update([], lookingAt(0), 1000);
+
+    // the far element is out of range, so it may still be there
+    expect(memory.current()).toEqual([{ class: 0, x: 0, y: 3, lastSeen: 0 }]);
+  });
+
+  it("keeps elements in view when the robot's position is unknown", () => {
+    const memory = new WorldMemory(options);
+    memory.update([at(0, 1)], null, 0);
+
+    memory.update([], null, 1000);
+
+    expect(memory.current()).toHaveLength(1);
+  });
+
+  it("forgets elements older than the maximum age", () => {
+    const memory = new WorldMemory(options);
+    memory.update([at(0, 1)], lookingAt(0), 0);
+
+    memory.update([], lookingAt(180), 10000);
+    expect(memory.current()).toHaveLength(1);
+    memory.update([], lookingAt(180), 10001);
+    expect(memory.current()).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+import { Detection, Position } from "./data-response";
+import { Units } from "./math";
+
+/**
+ * An element remembered where it was last seen
+ */
+export interface RememberedElement {
+  class: number;
+  /**
+   * Last seen position from the field center (m)
+   */
+  x: number;
+  y: number;
+  /**
+   * When the element was last seen (ms since epoch)
+   */
+  lastSeen: number;
+}
+
+export interface WorldMemoryOptions {
+  /**
+   * Furthest a detection can be from a remembered element of its class to be the same element (m)
+   */
+  matchDistance: number;
+  /**
+   * How long an element is remembered without being seen again (s)
+   */
+  maxAge: number;
+  /**
+   * How far the robot is trusted to see, remembered elements in view and in range
+   * that aren't detected are forgotten (m)
+   */
+  clearRange: number;
+  /**
+   * Horizontal field of view of the camera (degrees)
+   */
+  fov: number;
+}
+
+/**
+ * Is a point inside the camera's field of view
+ *
+ * @param position Robot pose, azimuth is clockwise from the field's +y axis
+ * @param x Point from the field center (m)
+ * @param y Point from the field center (m)
+ * @param fov Horizontal field of view (degrees)
+ * @param range How far the camera sees (m)
+ * @returns boolean
+ */
+const inView = (
+  position: Position,
+  x: number,
+  y: number,
+  fov: number,
+  range: number
+): boolean => {
+  const dx = x - position.x;
+  const dy = y - position.y;
+  if (Math.hypot(dx, dy) > range) {
+    return false;
+  }
+  const bearing = Units.rad2deg(Math.atan2(dx, dy));
+  const offset = Units.fmod(bearing - position.azimuth + 180, 360) - 180;
+  return Math.abs(offset) <= fov / 2;
+};
+
+/**
+ * Remembers where elements were last seen after they leave the camera's view,
+ * and forgets them once the camera looks at the spot again and they are gone
+ */
+export class WorldMemory {
+  private elements: RememberedElement[];
+  private options: WorldMemoryOptions;
+  private _updatedAt: number;
+
+  /**
+   * Constructor
+   *
+   * @param options World memory options
+   */
+  constructor(options: WorldMemoryOptions) {
+    this.elements = [];
+    this.options = options;
+    this._updatedAt = 0;
+  }
+
+  /**
+   * Time of the last update, elements last seen before it are out of view
+   */
+  public get updatedAt(): number {
+    return this._updatedAt;
+  }
+
+  /**
+   * Every remembered element, the same array until the next update
+   *
+   * @returns RememberedElement[]
+   */
+  public current = (): RememberedElement[] => {
+    return this.elements;
+  };
+
+  /**
+   * Records the detections of a new frame
+   *
+   * @param detections Detections in the frame
+   * @param position Robot pose when the frame was taken, null if unknown
+   * @param t Time the frame was received (ms since epoch)
+   */
+  public update = (detections: Detection[], position: Position, t: number) => {
+    const { matchDistance, maxAge, clearRange, fov } = this.options;
+    const elements = this.elements.map((element) => ({ ...element }));
+    const matched = new Set<RememberedElement>();
+
+    detections.forEach((detection) => {
+      const x = detection.mapLocation?.x?.[0];
+      const y = detection.mapLocation?.y?.[0];
+      if (!Number.isFinite(x) || !Number.isFinite(y)) {
+        return;
+      }
+      let closest: RememberedElement = null;
+      let closestDistance = matchDistance;
+      elements.forEach((element) => {
+        const distance = Math.hypot(element.x - x, element.y - y);
+        if (
+          element.class === detection.class &&
+          !matched.has(element) &&
+          distance <= closestDistance
+        ) {
+          closest = element;
+          closestDistance = distance;
+        }
+      });
+      if (closest) {
+        Object.assign(closest, { x, y, lastSeen: t });
+      } else {
+        closest = { class: detection.class, x, y, lastSeen: t };
+        elements.push(closest);
+      }
+      matched.add(closest);
+    });
+
+    const canSee =
+      position && Number.isFinite(position.x) && Number.isFinite(position.y);
+    this.elements = elements.filter(
+      (element) =>
+        matched.has(element) ||
+        (t - element.lastSeen <= maxAge * 1000 &&
+          !(canSee && inView(position, element.x, element.y, fov, clearRange)))
+    );
+    this._updatedAt = t;
+  };
+
+  /**
+   * Forgets every element
+   */
+  public clear = () => {
+    this.elements = [];
+    this._updatedAt = 0;
+  };
+}
@@ -0,0 +1,17 @@
+/* eslint-disable no-undef */
+import React from "react";
+import { HashRouter } from "react-router-dom";
+import { createRoot } from "react-dom/client";
+import { Provider } from "react-redux";
+import { store } from "./state/store";
+import App from "./App";
+
+const container = document.getElementById("root");
+const root = createRoot(container);
+root.render(
+  <Provider store={store}>
+    <HashRouter>
+      <App />
+    </HashRouter>
+  </Provider>
+);
@@ -1,7 +1,5 @@
-import React, { useEffect } from "react";
+import React from "react";
 import { GridLegacy as Grid } from "@mui/material";
-import { commands } from "../lib/commands";
-import { useAppSelector } from "../state/hooks";
 import ColorCamera from "../components/cameras/color-camera";
 
 /**
@@ -10,14 +8,6 @@ import ColorCamera from "../components/cameras/color-camera";
  * @returns JSX.Element
  */
 const ColorCameraView = () => {
-  const dataService = useAppSelector((state) => state.data.dataService);
-
-  useEffect(() => {
-    if (dataService) {
-      dataService.command = `${commands.gColor},${commands.gDetect},${commands.gStats}`;
-    }
-  }, [dataService]);
-
   return (
     <Grid item xs={12}>
       <ColorCamera />
@@ -1,8 +1,6 @@
-import React, { useEffect } from "react";
+import React from "react";
 import { GridLegacy as Grid } from "@mui/material";
 import Field from "../components/field/field";
-import { useAppSelector } from "../state/hooks";
-import { commands } from "../lib/commands";
 import ColorCamera from "../components/cameras/color-camera";
 
 /**
@@ -11,14 +9,6 @@ import ColorCamera from "../components/cameras/color-camera";
  * @returns JSX.Element
  */
 const FieldAndCameraView = () => {
-  const dataService = useAppSelector((state) => state.data.dataService);
-
-  useEffect(() => {
-    if (dataService) {
-      dataService.command = `${commands.gColor},${commands.gPos},${commands.gDetect},${commands.gStats}`;
-    }
-  }, [dataService]);
-
   return (
     <>
       <Grid item xs={6} justifyContent="flex-end">
@@ -1,8 +1,6 @@
-import React, { useEffect } from "react";
+import React from "react";
 import { GridLegacy as Grid } from "@mui/material";
 import Field from "../components/field/field";
-import { commands } from "../lib/commands";
-import { useAppSelector } from "../state/hooks";
 
 /**
  * Route that displays the field only
@@ -10,14 +8,6 @@ import { useAppSelector } from "../state/hooks";
  * @returns JSX.Element
  */
 const FieldView = () => {
-  const dataService = useAppSelector((state) => state.data.dataService);
-
-  useEffect(() => {
-    if (dataService) {
-      dataService.command = `${commands.gPos},${commands.gDetect},${commands.gStats}`;
-    }
-  }, [dataService]);
-
   return (
     <Grid item xs={12}>
       <Field />
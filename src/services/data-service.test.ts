@@ -0,0 +1,214 @@
+import EventEmitter from "eventemitter3";
+import { DataService } from "./data-service";
+import { DecodedFrame } from "./frame-socket";
+import { DataSocket } from "./socket-connection";
+import { DataResponse } from "../lib/data-response";
+import { commands } from "../lib/commands";
+import { ConnectionState, TransportMode } from "../lib/types";
+import { config } from "../util/config";
+
+// the real socket starts a web worker, the tests hand the data service a fake socket instead
+jest.mock("./socket-connection", () => ({}));
+
+/**
+ * Socket whose replies are scripted by the test
+ */
+class FakeSocket extends EventEmitter<{
+  open: [];
+  close: [];
+  frames: [DecodedFrame[]];
+}> {
+  public open: boolean;
+  public sent: string[];
+  private reply: (socket: FakeSocket, message: string) => void;
+
+  /**
+   * Constructor
+   *
+   * @param reply Answers a message sent by the data service
+   */
+  constructor(reply: (socket: FakeSocket, message: string) => void = () => null) {
+    super();
+    this.open = false;
+    this.sent = [];
+    this.reply = reply;
+  }
+
+  public send = (data: string) => {
+    this.sent.push(data);
+    this.reply(this, data);
+  };
+
+  public close = () => {
+    this.open = false;
+    this.emit("close");
+  };
+
+  public setCoalescing = () => undefined;
+
+  /**
+   * Opens the socket
+   */
+  public accept = () => {
+    this.open = true;
+    this.emit("open");
+  };
+
+  /**
+   * Sends a frame to the data service
+   *
+   * @param response Frame
+   */
+  public push = (response: DataResponse) => {
+    this.emit("frames", [
+      {
+        response,
+        invalidPaths: [],
+        coalesced: 0,
+        requestIds: response.requestId !== undefined ? [response.requestId] : [],
+        samples: [],
+      },
+    ]);
+  };
+
+  /**
+   * Messages sent for a command
+   *
+   * @param command Command
+   * @returns string[]
+   */
+  public sentFor = (command: string): string[] =>
+    this.sent.filter((message) => message.split(",")[0] === command);
+}
+
+/**
+ * Request id of a message, undefined when it has none
+ *
+ * @param message Message sent by the data service
+ * @returns number
+ */
+const idOf = (message: string): number => {
+  const id = message.split(",").find((arg) => arg.startsWith("id="));
+  return id ? Number(id.slice(3)) : undefined;
+};
+
+/**
+ * Advances the fake clock, letting promise callbacks run as it goes
+ *
+ * @param ms Time to advance (ms)
+ */
+const advance = async (ms: number) => {
+  for (let elapsed = 0; elapsed < ms; elapsed += 10) {
+    jest.advanceTimersByTime(Math.min(10, ms - elapsed));
+    await Promise.resolve();
+    await Promise.resolve();
+  }
+};
+
+describe("DataService", () => {
+  let service: DataService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    service?.stop();
+    service = null;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("backs off exponentially between reconnect attempts", async () => {
+    jest.spyOn(Math, "random").mockReturnValue(0);
+    const sockets: FakeSocket[] = [];
+    const delays: number[] = [];
+
+    service = new DataService("robot", "3030", (): DataSocket => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      setTimeout(socket.close);
+      return socket as unknown as DataSocket;
+    });
+    service.on("connectionStateChanged", (state, retryAt) => {
+      if (state === ConnectionState.Reconnecting) {
+        delays.push(retryAt - Date.now());
+      }
+    });
+    await advance(20000);
+
+    const { initialDelay, maxDelay } = config.reconnect;
+    expect(delays).toEqual(
+      [1, 2, 4, 8, 16, 32].map((n) => Math.min(maxDelay, n * initialDelay))
+    );
+    expect(sockets).toHaveLength(delays.length);
+  });
+
+  it("waits for replies once the maximum number of polls are in flight", async () => {
+    const socket = new FakeSocket();
+    service = new DataService("robot", "3030", () => socket as unknown as DataSocket);
+    service.setSubscriptions([commands.gPos]);
+    socket.accept();
+
+    await advance(config.polling.replyTimeout - 100);
+    expect(socket.sentFor(commands.gPos)).toHaveLength(config.polling.maxInFlight);
+
+    socket.push({ command: commands.gPos, position: { x: 0, y: 0 } });
+    expect(socket.sentFor(commands.gPos)).toHaveLength(config.polling.maxInFlight + 1);
+  });
+
+  it("polls again when the server doesn't push the subscribed data", async () => {
+    const socket = new FakeSocket((socket, message) => {
+      const [command] = message.split(",");
+      if (command === commands.gHello) {
+        socket.push({
+          command,
+          requestId: idOf(message),
+          hello: { version: 1, commands: [commands.gPos, commands.gSubscribe] },
+        });
+      } else if (command === commands.gSubscribe) {
+        // acknowledged, but nothing is ever pushed
+        socket.push({ command });
+      }
+    });
+    service = new DataService("robot", "3030", () => socket as unknown as DataSocket);
+    service.setSubscriptions([commands.gPos]);
+    socket.accept();
+
+    await advance(100);
+    expect(service.mode).toBe(TransportMode.Subscription);
+    const polls = socket.sentFor(commands.gPos).length;
+
+    await advance(config.subscription.ackTimeout + 200);
+    expect(service.mode).toBe(TransportMode.Polling);
+    expect(socket.sent).toContain(commands.gSubscribe);
+    expect(socket.sentFor(commands.gPos).length).toBeGreaterThan(polls);
+  });
+
+  it("stays subscribed while the server pushes data", async () => {
+    const socket = new FakeSocket((socket, message) => {
+      const [command] = message.split(",");
+      if (command === commands.gHello) {
+        socket.push({
+          command,
+          requestId: idOf(message),
+          hello: { version: 1, commands: [commands.gPos, commands.gSubscribe] },
+        });
+      } else if (command === commands.gSubscribe) {
+        socket.push({ command });
+        socket.push({ command: commands.gPos, position: { x: 0, y: 0 } });
+      }
+    });
+    service = new DataService("robot", "3030", () => socket as unknown as DataSocket);
+    service.setSubscriptions([commands.gPos]);
+    socket.accept();
+
+    await advance(100);
+    const polls = socket.sentFor(commands.gPos).length;
+    await advance(config.subscription.ackTimeout + 200);
+
+    expect(service.mode).toBe(TransportMode.Subscription);
+    expect(socket.sentFor(commands.gPos)).toHaveLength(polls);
+  });
+});
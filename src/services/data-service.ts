@@ -1,15 +1,74 @@
 import EventEmitter from "eventemitter3";
-import { ColorCorrection, Convert, DataResponse, Offset } from "../lib/data-response";
+import {
+  ColorCorrection,
+  DataResponse,
+  Goal,
+  Hello,
+  Offset,
+} from "../lib/data-response";
 import { config } from "../util/config";
-import { commands } from "../lib/commands";
+import { commands, topics } from "../lib/commands";
+import { ConnectionState, TransportMode } from "../lib/types";
+import { FrameSample } from "../lib/samples";
+import { DecodedFrame } from "./frame-socket";
+import { DataSocket, SocketConnection } from "./socket-connection";
+import { NetworkStats, RoundTripMonitor } from "./round-trip-monitor";
+
+export { FRAME_DECODE_ERROR } from "./frame-socket";
+
+interface PendingRequest {
+  command: string;
+  resolve: (response: DataResponse) => void;
+  reject: (error: RequestError) => void;
+  timer: NodeJS.Timeout;
+  sentAt: number;
+}
+
+/**
+ * Error for a command that was rejected by the server or got no reply
+ */
+export class RequestError extends Error {
+  public command: string;
+
+  constructor(command: string, message: string) {
+    super(`${command} failed: ${message}`);
+    this.name = "RequestError";
+    this.command = command;
+  }
+}
+
+/**
+ * Opens the socket for a websocket url
+ */
+export type SocketFactory = (url: string) => DataSocket;
+
+/**
+ * Does a brain support a command based on its handshake
+ *
+ * @param hello Handshake reply, null for legacy brains which are assumed to support everything
+ * @param command Command to check
+ * @returns boolean
+ */
+export const supportsCommand = (hello: Hello, command: string): boolean => {
+  return !hello || !hello.commands || hello.commands.includes(command);
+};
 
 type DataServiceEvents = {
+  connectionStateChanged: [ConnectionState, number];
+  hello: [Hello];
   socketConnected: [];
-  message: [DataResponse];
+  message: [DataResponse, FrameSample[]];
+  decodeErrors: [string[]];
+  networkStats: [NetworkStats];
   socketConnectionClosed: [];
   getCameraOffset: [Offset];
   getGpsOffset: [Offset];
   getColorCorrection: [ColorCorrection];
+  setCameraOffset: [string];
+  setGpsOffset: [string];
+  setColorCorrection: [string];
+  setGoal: [Goal];
+  clearGoal: [];
 };
 
 /**
@@ -17,83 +76,574 @@ type DataServiceEvents = {
  */
 export class DataService extends EventEmitter<DataServiceEvents> {
   private timer: NodeJS.Timeout;
-  private socket: WebSocket;
-  public command: string;
+  private nextPoll: Map<string, number>;
+  private pollsInFlight: Map<number, number>;
+  private roundTrips: RoundTripMonitor;
+  private statsTimer: NodeJS.Timeout;
+  private subscribeTimer: NodeJS.Timeout;
+  private reconnectTimer: NodeJS.Timeout;
+  private watchdogTimer: NodeJS.Timeout;
+  private commandTimer: NodeJS.Timeout;
+  private socket: DataSocket;
+  private createSocket: SocketFactory;
+  private _command: string;
+  private reconnectAttempts: number;
+  private lastMessageAt: number;
+  private stopped: boolean;
+  private nextRequestId: number;
+  private pendingRequests: Map<number, PendingRequest>;
+  private subscribed: Set<string>;
+  /**
+   * Has the server pushed data since it acknowledged the subscription
+   */
+  private pushed: boolean;
+  private coalescing: boolean;
+  /**
+   * How many times a second each data command is polled or pushed
+   */
+  public rates: { [command: string]: number };
+  public mode: TransportMode;
+  public state: ConnectionState;
+  /**
+   * Protocol version and capabilities of the connected brain, null for brains without a handshake
+   */
+  public hello: Hello;
   public ip: string;
   public port: string;
 
   /**
    * Constructor
+   *
+   * @param _ip Websocket server address
+   * @param _port Websocket server port
+   * @param createSocket Opens the socket, replaced by a fake socket in tests
    */
-  constructor(_ip: string, _port: string) {
+  constructor(
+    _ip: string,
+    _port: string,
+    createSocket: SocketFactory = (url) => new SocketConnection(url)
+  ) {
     super();
     this.ip = _ip;
     this.port = _port;
+    this.createSocket = createSocket;
     this.timer = null;
-    this.command = null;
+    this.nextPoll = new Map();
+    this.pollsInFlight = new Map();
+    this.roundTrips = new RoundTripMonitor(config.networkStats.samples);
+    this.statsTimer = null;
+    this.subscribeTimer = null;
+    this.reconnectTimer = null;
+    this.watchdogTimer = null;
+    this.commandTimer = null;
+    this._command = null;
+    this.reconnectAttempts = 0;
+    this.lastMessageAt = 0;
+    this.stopped = false;
+    this.nextRequestId = 1;
+    this.pendingRequests = new Map();
+    this.subscribed = new Set();
+    this.pushed = false;
+    this.coalescing = true;
+    this.rates = { ...config.rates };
+    this.mode = TransportMode.Polling;
+    this.state = ConnectionState.Closed;
+    this.hello = null;
     this.createSocketConnection();
   }
 
+  /**
+   * Comma separated list of commands for the data the app currently needs
+   */
+  public get command(): string {
+    return this._command;
+  }
+
+  public set command(command: string) {
+    this._command = command;
+    if (this.mode === TransportMode.Subscription) {
+      this.subscribe();
+    }
+  }
+
+  /**
+   * Sets the data commands components are subscribed to
+   *
+   * @param subscribed Data commands with at least one subscriber
+   */
+  public setSubscriptions = (subscribed: string[]) => {
+    this.subscribed = new Set(subscribed);
+    this.scheduleCommandUpdate();
+  };
+
+  /**
+   * Updates the command once the current render is done, so components swapped
+   * out by a route change don't cause a drop and re-add of the same data
+   */
+  private scheduleCommandUpdate = () => {
+    clearTimeout(this.commandTimer);
+    this.commandTimer = setTimeout(this.updateCommand, 0);
+  };
+
+  /**
+   * Rebuilds the command from the subscribed data that the brain supports
+   */
+  private updateCommand = () => {
+    const command = Object.values(topics)
+      .filter((topic) => this.subscribed.has(topic) && this.supports(topic))
+      .join(",");
+    if (command !== this.command) {
+      this.command = command;
+    }
+  };
+
   /**
    * Creates a new WebSocket
    */
   public createSocketConnection = () => {
-    this.socket = new WebSocket(`ws://${this.ip}:${this.port}`);
+    this.stopped = false;
+    this.mode = TransportMode.Polling;
+    if (this.state !== ConnectionState.Reconnecting) {
+      this.setState(ConnectionState.Connecting);
+    }
 
-    this.socket.onopen = () => {
+    const socket = this.createSocket(`ws://${this.ip}:${this.port}`);
+    this.socket = socket;
+    socket.setCoalescing(this.coalescing);
+
+    socket.on("open", () => {
+      this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+      this.setState(ConnectionState.Open);
+      this.startWatchdog();
+      this.startNetworkStats();
+      this.updateCommand();
       this.emit("socketConnected");
+      // poll straight away, legacy brains never answer the handshake
       this.start();
-    };
-
-    this.socket.onmessage = (event: MessageEvent) => {
-      try {
-        const response = Convert.toDataResponse(event.data);
-        if (config.logDataResponse) {
-          console.log(response);
-        }
-        if (response) {
-          if (response.command === commands.gGetCameraOffset) {
-            this.emit("getCameraOffset", response.cameraOffset);
-          } else if (response.command === commands.gGetGpsOffset) {
-            this.emit("getGpsOffset", response.gpsOffset);
-          } else if (response.command === commands.gGetColorCorrection) {
-            this.emit("getColorCorrection", response.colorCorrection);
-          } else {
-            this.emit("message", response);
-          }
+      this.handshake().then(() => {
+        if (socket !== this.socket) {
+          return;
         }
-      } catch (ex) {
-        console.log(`[DataService] Failed to parse incoming dataset: ${ex}`);
+        this.updateCommand();
+        this.negotiateFormat();
+        this.upgrade();
+      });
+    });
+
+    socket.on("frames", (frames: DecodedFrame[]) => {
+      this.lastMessageAt = Date.now();
+      if (this.state === ConnectionState.Degraded) {
+        this.setState(ConnectionState.Open);
       }
-    };
+      frames.forEach(this.handleFrame);
+    });
 
-    this.socket.onclose = () => {
+    socket.on("close", () => {
+      // ignore sockets that were replaced by a restart
+      if (socket !== this.socket) {
+        return;
+      }
+      clearTimeout(this.timer);
+      clearInterval(this.watchdogTimer);
+      clearInterval(this.statsTimer);
+      clearTimeout(this.subscribeTimer);
+      this.pollsInFlight.clear();
+      this.rejectPendingRequests("connection closed");
       this.emit("socketConnectionClosed");
-    };
+      if (!this.stopped) {
+        this.scheduleReconnect();
+      }
+    });
   };
 
   /**
-   * Starts polling for data with a specified command
+   * Routes a frame decoded by the socket worker
+   *
+   * @param frame Decoded frame
+   */
+  private handleFrame = ({
+    response,
+    invalidPaths,
+    coalesced,
+    requestIds,
+    samples,
+  }: DecodedFrame) => {
+    if (invalidPaths.length) {
+      this.emit("decodeErrors", invalidPaths);
+    }
+    if (config.logDataResponse) {
+      console.log(response);
+    }
+    if (!response) {
+      return;
+    }
+    this.settleRequest(response);
+    if (response.command === commands.gHello) {
+      // handled by the pending request
+    } else if (response.command === commands.gSubscribe) {
+      this.subscriptionAccepted();
+    } else if (response.command === commands.gGetCameraOffset) {
+      this.emit("getCameraOffset", response.cameraOffset);
+    } else if (response.command === commands.gGetGpsOffset) {
+      this.emit("getGpsOffset", response.gpsOffset);
+    } else if (response.command === commands.gGetColorCorrection) {
+      this.emit("getColorCorrection", response.colorCorrection);
+    } else if (
+      response.command !== commands.gSetCameraOffset &&
+      response.command !== commands.gSetGpsOffset &&
+      response.command !== commands.gSetColorCorrection &&
+      response.command !== commands.gSetGoal &&
+      response.command !== commands.gClearGoal
+    ) {
+      if (this.mode === TransportMode.Subscription && !requestIds.length) {
+        this.pushed = true;
+      }
+      this.pollReplied(requestIds, coalesced + 1);
+      this.emit("message", response, samples);
+    }
+  };
+
+  /**
+   * Updates the connection state and lets listeners know
+   *
+   * @param state New connection state
+   * @param retryAt Time of the next reconnect attempt (ms since epoch), if one is scheduled
+   */
+  private setState = (state: ConnectionState, retryAt: number = null) => {
+    this.state = state;
+    this.emit("connectionStateChanged", state, retryAt);
+  };
+
+  /**
+   * Schedules the next connection attempt using exponential backoff with jitter
+   */
+  private scheduleReconnect = () => {
+    const { initialDelay, maxDelay, jitter } = config.reconnect;
+    const backoff = Math.min(
+      maxDelay,
+      initialDelay * Math.pow(2, this.reconnectAttempts)
+    );
+    const delay = Math.round(backoff * (1 - jitter * Math.random()));
+    this.reconnectAttempts++;
+
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(this.createSocketConnection, delay);
+    this.setState(ConnectionState.Reconnecting, Date.now() + delay);
+  };
+
+  /**
+   * Watches for a connection that is open but has stopped delivering data
+   *
+   * Marks the connection as degraded after a short silence and drops it after a long one,
+   * which happens when the robot reboots without closing the socket
+   */
+  private startWatchdog = () => {
+    clearInterval(this.watchdogTimer);
+    this.watchdogTimer = setInterval(() => {
+      const silence = Date.now() - this.lastMessageAt;
+      if (silence > config.reconnect.timeout) {
+        console.log("[Data Service] No data received, reconnecting");
+        this.socket.close();
+      } else if (
+        silence > config.reconnect.degradedAfter &&
+        this.state === ConnectionState.Open
+      ) {
+        this.setState(ConnectionState.Degraded);
+      }
+    }, config.reconnect.degradedAfter / 2);
+  };
+
+  /**
+   * Periodically reports round trip times and the drop rate for the network health readout
+   */
+  private startNetworkStats = () => {
+    this.roundTrips.reset();
+    clearInterval(this.statsTimer);
+    this.statsTimer = setInterval(() => {
+      this.emit("networkStats", this.roundTrips.stats());
+    }, config.networkStats.interval);
+  };
+
+  /**
+   * Skips the remaining backoff and tries to reconnect straight away
+   */
+  public reconnect = () => {
+    clearTimeout(this.reconnectTimer);
+    if (this.state === ConnectionState.Reconnecting) {
+      this.createSocketConnection();
+    } else {
+      this.restart();
+    }
+  };
+
+  /**
+   * Asks the brain for its protocol version, supported commands and identity
+   *
+   * Brains that predate the handshake don't reply, in which case nothing is assumed about them
+   */
+  private handshake = (): Promise<void> => {
+    return this.request(commands.gHello)
+      .then((response) => response.hello ?? null)
+      .catch((ex) => {
+        console.log(`[Data Service] No handshake, assuming a legacy brain - ${ex.message}`);
+        return null;
+      })
+      .then((hello: Hello) => {
+        this.hello = hello;
+        this.emit("hello", hello);
+      });
+  };
+
+  /**
+   * Does the connected brain support a command
+   *
+   * Legacy brains without a handshake are assumed to support everything
    *
-   * Uses configurable polling interval
+   * @param command Command to check
+   * @returns boolean
+   */
+  public supports = (command: string): boolean => {
+    return supportsCommand(this.hello, command);
+  };
+
+  /**
+   * Asks the server to send binary MessagePack frames
+   *
+   * Older servers ignore the request and keep sending JSON text frames
+   */
+  private negotiateFormat = () => {
+    if (config.messageFormat === "msgpack" && this.supports(commands.gSetFormat)) {
+      this.send(`${commands.gSetFormat},msgpack`);
+    }
+  };
+
+  /**
+   * Starts receiving data by polling, `upgrade` switches to server push once the
+   * handshake says the server supports it
    */
   public start = () => {
+    this.mode = TransportMode.Polling;
+    this.poll();
+  };
+
+  /**
+   * Subscribes to server push when the server supports it, polling carries on until
+   * the server acknowledges the subscription
+   */
+  private upgrade = () => {
+    if (!config.subscription.enabled || !this.supports(commands.gSubscribe)) {
+      return;
+    }
+
+    this.pushed = false;
+    this.subscribe();
+    this.subscribeTimer = setTimeout(
+      this.subscriptionTimedOut,
+      config.subscription.ackTimeout
+    );
+  };
+
+  /**
+   * Goes back to paced polling when the server didn't acknowledge the subscription in
+   * time, or acknowledged it without pushing any of the subscribed data
+   */
+  private subscriptionTimedOut = () => {
+    if (this.mode === TransportMode.Subscription && (this.pushed || !this.command)) {
+      return;
+    }
+    console.log("[Data Service] Server does not push subscribed data, polling instead");
+    if (this.mode === TransportMode.Subscription) {
+      // stop whatever the server might still push
+      this.send(commands.gSubscribe);
+    }
+    this.start();
+  };
+
+  /**
+   * Starts polling for data with a specified command
+   *
+   * Each command is requested at its own rate, commands that are due together share a message
+   */
+  private poll = () => {
     try {
-      this.timer = setInterval(() => {
-        this.send(this.command);
-      }, config.pollingInterval);
+      clearTimeout(this.timer);
+      this.nextPoll.clear();
+      this.pollsInFlight.clear();
+      this.pollDue();
     } catch (ex) {
       console.log(`[Data Service] Failed to start sending commands - ${ex}`);
     }
   };
 
+  /**
+   * Requests every command that is due in a single message, then waits for the next one to be due
+   *
+   * With paced polling nothing is sent while the maximum number of requests are waiting for a
+   * reply, a reply or a timeout frees up a slot
+   */
+  private pollDue = () => {
+    clearTimeout(this.timer);
+    const now = Date.now();
+    this.dropExpiredPolls(now);
+
+    const { paced, maxInFlight, replyTimeout } = config.polling;
+    const full = paced && this.pollsInFlight.size >= maxInFlight;
+    const active = (this.command ?? "").split(",").filter((command) => command);
+    const due = full
+      ? []
+      : active.filter((command) => (this.nextPoll.get(command) ?? 0) <= now);
+
+    due.forEach((command) => {
+      const interval = 1000 / this.rateOf(command);
+      // stay on schedule, unless we fell more than a whole interval behind
+      const next = (this.nextPoll.get(command) ?? now) + interval;
+      this.nextPoll.set(command, next > now ? next : now + interval);
+    });
+    if (due.length && this.connected()) {
+      this.sendPoll(due.join(","), now);
+    }
+
+    let wait = 1000 / config.defaultRate;
+    if (paced && this.pollsInFlight.size >= maxInFlight) {
+      // until the oldest request times out, unless a reply comes first
+      const oldest: number = this.pollsInFlight.values().next().value;
+      wait = Math.max(0, oldest + replyTimeout - now);
+    } else if (active.length) {
+      const nextDue = Math.min(...active.map((command) => this.nextPoll.get(command)));
+      wait = Math.max(0, nextDue - now);
+    }
+    this.timer = setTimeout(this.pollDue, wait);
+  };
+
+  /**
+   * Sends a poll and keeps track of it until the reply arrives
+   *
+   * Brains with a handshake echo the request id, replies from older brains are matched in order
+   *
+   * @param command Comma separated data commands
+   * @param now Current time (ms since epoch)
+   */
+  private sendPoll = (command: string, now: number) => {
+    const id = this.nextRequestId++;
+    this.pollsInFlight.set(id, now);
+    this.send(this.hello ? `${command},id=${id}` : command);
+  };
+
+  /**
+   * Times the polls a data frame replies to and sends the next poll when pacing
+   *
+   * @param requestIds Request ids echoed by the server, empty for older brains
+   * @param count Number of replies in the frame, more than one when frames were coalesced
+   */
+  private pollReplied = (requestIds: number[], count: number) => {
+    if (this.mode !== TransportMode.Polling || !this.pollsInFlight.size) {
+      return;
+    }
+    const now = Date.now();
+    const ids = requestIds.length
+      ? requestIds
+      : Array.from(this.pollsInFlight.keys()).slice(0, count);
+    ids.forEach((id) => {
+      const sentAt = this.pollsInFlight.get(id);
+      if (sentAt !== undefined) {
+        this.roundTrips.record(now - sentAt);
+        this.pollsInFlight.delete(id);
+      }
+    });
+    if (config.polling.paced) {
+      this.pollDue();
+    }
+  };
+
+  /**
+   * Gives up on polls that got no reply in time
+   *
+   * @param now Current time (ms since epoch)
+   */
+  private dropExpiredPolls = (now: number) => {
+    this.pollsInFlight.forEach((sentAt, id) => {
+      if (now - sentAt >= config.polling.replyTimeout) {
+        this.pollsInFlight.delete(id);
+        this.roundTrips.drop();
+      }
+    });
+  };
+
+  /**
+   * How many times a second a data command is requested
+   *
+   * @param command Data command
+   * @returns number Rate in Hz
+   */
+  private rateOf = (command: string): number => {
+    const rate = this.rates[command] ?? config.defaultRate;
+    return Math.min(config.maxRate, rate > 0 ? rate : config.defaultRate);
+  };
+
+  /**
+   * Turns merging of data frames that arrive while the UI is busy on or off, with it off
+   * every decoded frame is emitted as a message
+   *
+   * @param enabled Merge data frames
+   */
+  public setCoalescing = (enabled: boolean) => {
+    this.coalescing = enabled;
+    this.socket.setCoalescing(enabled);
+  };
+
+  /**
+   * Changes the rate data commands are requested at
+   *
+   * @param rates Rate in Hz for each data command
+   */
+  public setRates = (rates: { [command: string]: number }) => {
+    this.rates = { ...rates };
+    if (this.mode === TransportMode.Subscription) {
+      this.subscribe();
+    } else {
+      this.nextPoll.clear();
+    }
+  };
+
+  /**
+   * Asks the server to push the data for the current command at the configured rates
+   *
+   * Sent as `subscribe,<topic>:<rate in Hz>,...`, an empty topic list stops all pushes
+   */
+  private subscribe = () => {
+    const subscribed = (this.command ?? "")
+      .split(",")
+      .filter((topic) => topic)
+      .map((topic) => `${topic}:${this.rateOf(topic)}`);
+    this.send([commands.gSubscribe, ...subscribed].join(","));
+  };
+
+  /**
+   * Switches to subscription mode once the server acknowledges a subscribe message
+   */
+  private subscriptionAccepted = () => {
+    if (this.mode !== TransportMode.Subscription) {
+      this.mode = TransportMode.Subscription;
+      clearTimeout(this.timer);
+      this.pollsInFlight.clear();
+    }
+  };
+
   /**
    * Stops the service
    */
   public stop = () => {
     try {
-      clearInterval(this.timer);
+      this.stopped = true;
+      clearTimeout(this.timer);
+      clearInterval(this.watchdogTimer);
+      clearInterval(this.statsTimer);
+      clearTimeout(this.subscribeTimer);
+      clearTimeout(this.reconnectTimer);
+      this.rejectPendingRequests("service stopped");
       this.socket.close();
+      this.setState(ConnectionState.Closed);
     } catch (ex) {
       console.log(`[Data Service] Failed to stop the service - ${ex}`);
     }
@@ -105,6 +655,7 @@ export class DataService extends EventEmitter<DataServiceEvents> {
   public restart = () => {
     try {
       this.stop();
+      this.reconnectAttempts = 0;
       this.createSocketConnection();
     } catch (ex) {
       console.log(`[Data Service] Failed to restart the service - ${ex}`);
@@ -118,7 +669,7 @@ export class DataService extends EventEmitter<DataServiceEvents> {
    */
   public send = (command: string) => {
     try {
-      if (this.socket.readyState === WebSocket.OPEN) {
+      if (this.connected()) {
         this.socket.send(command);
       }
     } catch (ex) {
@@ -127,69 +678,189 @@ export class DataService extends EventEmitter<DataServiceEvents> {
   };
 
   /**
+   * Sends a command and waits for the matching reply
    *
+   * Brains with a handshake get `<command>[,<args>],id=<request id>` and echo the `RequestId`,
+   * older brains get `<command>[,<args>]` and their reply is matched by its `Command`. The reply
+   * carries an `Error` message if the server could not carry out the command
+   *
+   * @param command The command to send
+   * @param args Comma separated command arguments
+   * @returns Promise<DataResponse> Resolves with the reply, rejects on timeout or a server error
    */
-  public getCameraOffset = () => {
-    try {
-      this.socket.send(commands.gGetCameraOffset);
-    } catch (ex) {
-      console.log(`Failed to get camera offset ${ex}`);
-    }
+  public request = (command: string, args?: string): Promise<DataResponse> => {
+    return new Promise<DataResponse>((resolve, reject) => {
+      if (!this.connected()) {
+        reject(new RequestError(command, "not connected"));
+        return;
+      }
+
+      const id = this.nextRequestId++;
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(id);
+        this.roundTrips.drop();
+        reject(
+          new RequestError(command, `timed out after ${config.requestTimeout}ms`)
+        );
+      }, config.requestTimeout);
+      this.pendingRequests.set(id, {
+        command,
+        resolve,
+        reject,
+        timer,
+        sentAt: Date.now(),
+      });
+
+      try {
+        this.socket.send(
+          [command, args, this.hello ? `id=${id}` : null]
+            .filter((part) => part)
+            .join(",")
+        );
+      } catch (ex) {
+        clearTimeout(timer);
+        this.pendingRequests.delete(id);
+        reject(new RequestError(command, `${ex}`));
+      }
+    });
   };
 
   /**
+   * Settles the pending request a reply belongs to, by request id or else by the oldest
+   * request for the same command
    *
+   * @param response Reply from the server
    */
-  public getGpsOffset = () => {
-    try {
-      this.socket.send(commands.gGetGpsOffset);
-    } catch (ex) {
-      console.log(`Failed to get gps offset ${ex}`);
+  private settleRequest = (response: DataResponse) => {
+    let id = response.requestId;
+    if (id === undefined) {
+      id = Array.from(this.pendingRequests.keys()).find(
+        (pending) => this.pendingRequests.get(pending).command === response.command
+      );
+    }
+    const request = this.pendingRequests.get(id);
+    if (!request) {
+      return;
+    }
+    clearTimeout(request.timer);
+    this.pendingRequests.delete(id);
+    this.roundTrips.record(Date.now() - request.sentAt);
+    if (response.error) {
+      request.reject(new RequestError(request.command, response.error));
+    } else {
+      request.resolve(response);
     }
   };
 
-  public getColorCorrection = () => {
-    try {
-      this.socket.send(commands.gGetColorCorrection);
-    } catch (ex) {
-      console.log(`Failed to get color correction ${ex}`)
-    }
-  }
+  /**
+   * Rejects every request still waiting for a reply
+   *
+   * @param reason Why the requests failed
+   */
+  private rejectPendingRequests = (reason: string) => {
+    this.pendingRequests.forEach((request) => {
+      clearTimeout(request.timer);
+      request.reject(new RequestError(request.command, reason));
+    });
+    this.pendingRequests.clear();
+  };
+
+  /**
+   * Gets the camera offset from the server
+   */
+  public getCameraOffset = (): Promise<Offset> => {
+    return this.request(commands.gGetCameraOffset).then(
+      (response) => response.cameraOffset
+    );
+  };
+
+  /**
+   * Gets the gps offset from the server
+   */
+  public getGpsOffset = (): Promise<Offset> => {
+    return this.request(commands.gGetGpsOffset).then(
+      (response) => response.gpsOffset
+    );
+  };
+
+  /**
+   * Gets the color correction values from the server
+   */
+  public getColorCorrection = (): Promise<ColorCorrection> => {
+    return this.request(commands.gGetColorCorrection).then(
+      (response) => response.colorCorrection
+    );
+  };
 
   /**
+   * Sets the camera offset on the server
    *
+   * @param offset Comma separated x, y, z, unit, heading and elevation offsets
    */
-  public setCameraOffset = (offset: string) => {
-    try {
-      this.socket.send(`${commands.gSetCameraOffset},${offset}`);
-    } catch (ex) {
-      console.log(`Failed to set camera offset ${ex}`);
-    }
+  public setCameraOffset = (offset: string): Promise<DataResponse> => {
+    return this.request(commands.gSetCameraOffset, offset).then((response) => {
+      this.emit("setCameraOffset", offset);
+      return response;
+    });
   };
 
   /**
+   * Sets the gps offset on the server
    *
+   * @param offset Comma separated x, y, z, unit and heading offsets
    */
-  public setGpsOffset = (offset: string) => {
-    try {
-      this.socket.send(`${commands.gSetGpsOffset},${offset}`);
-    } catch (ex) {
-      console.log(`Failed to set gps offset ${ex}`);
-    }
+  public setGpsOffset = (offset: string): Promise<DataResponse> => {
+    return this.request(commands.gSetGpsOffset, offset).then((response) => {
+      this.emit("setGpsOffset", offset);
+      return response;
+    });
   };
 
-  public setColorCorrection = (colorCorrection: string) => {
-    try {
-      this.socket.send(`${commands.gSetColorCorrection},${colorCorrection}`);
-    } catch (ex) {
-      console.log(`Failed to set color correction ${ex}`)
-    }
-  }
+  /**
+   * Sets the color correction values on the server
+   *
+   * @param colorCorrection Comma separated hue, saturation and value corrections
+   */
+  public setColorCorrection = (colorCorrection: string): Promise<DataResponse> => {
+    return this.request(commands.gSetColorCorrection, colorCorrection).then(
+      (response) => {
+        this.emit("setColorCorrection", colorCorrection);
+        return response;
+      }
+    );
+  };
+
+  /**
+   * Sends a navigation goal to the brain
+   *
+   * @param goal Target pose on the field
+   * @returns Promise<Goal> The goal the brain acknowledged
+   */
+  public setGoal = (goal: Goal): Promise<Goal> => {
+    const args = [goal.x, goal.y, goal.heading]
+      .map((value) => value.toFixed(3))
+      .join(",");
+    return this.request(commands.gSetGoal, args).then((response) => {
+      const accepted = response.goal ?? goal;
+      this.emit("setGoal", accepted);
+      return accepted;
+    });
+  };
+
+  /**
+   * Cancels the navigation goal on the brain
+   */
+  public clearGoal = (): Promise<DataResponse> => {
+    return this.request(commands.gClearGoal).then((response) => {
+      this.emit("clearGoal");
+      return response;
+    });
+  };
 
   /**
    * Is the service connected to the websocket server
    */
   public connected = (): boolean => {
-    return this.socket.readyState === WebSocket.OPEN ? true : false;
+    return this.socket.open;
   };
 }
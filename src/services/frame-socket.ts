@@ -0,0 +1,232 @@
+import { Convert, DataResponse } from "../lib/data-response";
+import { commands } from "../lib/commands";
+import { FrameSample, sampleOf } from "../lib/samples";
+
+/**
+ * Decode error path used when a whole frame could not be parsed
+ */
+export const FRAME_DECODE_ERROR = "<frame>";
+
+/**
+ * Replies that must all be delivered, everything else is data that can be coalesced
+ */
+const controlCommands: string[] = [
+  commands.gHello,
+  commands.gSubscribe,
+  commands.gGetCameraOffset,
+  commands.gGetGpsOffset,
+  commands.gGetColorCorrection,
+  commands.gSetCameraOffset,
+  commands.gSetGpsOffset,
+  commands.gSetColorCorrection,
+  commands.gSetGoal,
+  commands.gClearGoal,
+];
+
+/**
+ * A decoded frame, response is null when the frame could not be parsed at all
+ */
+export interface DecodedFrame {
+  response: DataResponse;
+  invalidPaths: string[];
+  /**
+   * Number of data frames merged into this one because the UI fell behind
+   */
+  coalesced: number;
+  /**
+   * Request ids of the poll replies merged into this frame, oldest first
+   */
+  requestIds: number[];
+  /**
+   * History samples of the frames merged into this one, oldest first, so merging
+   * keeps every position and detection with the time its frame was received
+   */
+  samples: FrameSample[];
+}
+
+/**
+ * Messages from the main thread to the socket
+ */
+export type SocketRequest =
+  | { type: "connect"; url: string }
+  | { type: "send"; data: string }
+  | { type: "close" }
+  | { type: "ready" }
+  | { type: "coalesce"; enabled: boolean };
+
+/**
+ * Messages from the socket to the main thread
+ */
+export type SocketMessage =
+  | { type: "open" }
+  | { type: "close" }
+  | { type: "frames"; frames: DecodedFrame[] };
+
+/**
+ * Is the frame a data frame that can be merged with the next one
+ *
+ * @param frame Decoded frame
+ * @returns boolean
+ */
+const isDataFrame = (frame: DecodedFrame): boolean => {
+  const { response } = frame;
+  return response !== null && !controlCommands.includes(response.command);
+};
+
+/**
+ * Owns the websocket and decodes its frames, runs inside the socket worker
+ *
+ * Decoded frames are posted in batches. After posting, nothing more is sent until the
+ * main thread reports it is ready, meanwhile data frames are merged so a UI that falls
+ * behind only ever gets the latest data, while replies to commands are all kept
+ */
+export class FrameSocket {
+  private socket: WebSocket;
+  private queue: DecodedFrame[];
+  private waiting: boolean;
+  private coalescing: boolean;
+  private post: (message: SocketMessage) => void;
+
+  /**
+   * Constructor
+   *
+   * @param post Sends a message to the main thread
+   */
+  constructor(post: (message: SocketMessage) => void) {
+    this.socket = null;
+    this.queue = [];
+    this.waiting = false;
+    this.coalescing = true;
+    this.post = post;
+  }
+
+  /**
+   * Handles a message from the main thread
+   *
+   * @param request Message from the main thread
+   */
+  public handle = (request: SocketRequest) => {
+    switch (request.type) {
+      case "connect":
+        this.connect(request.url);
+        break;
+      case "send":
+        if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+          this.socket.send(request.data);
+        }
+        break;
+      case "close":
+        this.socket?.close();
+        break;
+      case "ready":
+        this.waiting = false;
+        this.flush();
+        break;
+      case "coalesce":
+        this.coalescing = request.enabled;
+        break;
+      default:
+        break;
+    }
+  };
+
+  /**
+   * Opens the websocket
+   *
+   * @param url Websocket server url
+   */
+  private connect = (url: string) => {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (ex) {
+      // e.g. a malformed host, reported as a close so the reconnect backoff takes over,
+      // after the caller had a chance to listen for it
+      console.log(`[Frame Socket] Failed to open ${url} - ${ex.message ?? ex}`);
+      setTimeout(() => this.post({ type: "close" }));
+      return;
+    }
+    socket.binaryType = "arraybuffer";
+    this.socket = socket;
+
+    socket.onopen = () => this.post({ type: "open" });
+    socket.onmessage = (event: MessageEvent) => {
+      this.enqueue(this.decode(event.data));
+      this.flush();
+    };
+    socket.onclose = () => {
+      this.flush(true);
+      this.post({ type: "close" });
+    };
+  };
+
+  /**
+   * Decodes a JSON text frame or a MessagePack binary frame
+   *
+   * @param data Frame received over the websocket
+   * @returns DecodedFrame
+   */
+  private decode = (data: string | ArrayBuffer): DecodedFrame => {
+    const t = Date.now();
+    try {
+      const { response, invalidPaths } =
+        typeof data === "string"
+          ? Convert.decodeJson(data)
+          : Convert.decodeBinary(data);
+      const requestIds =
+        response?.requestId !== undefined ? [response.requestId] : [];
+      const sample = response && sampleOf(response, t);
+      return {
+        response,
+        invalidPaths,
+        coalesced: 0,
+        requestIds,
+        samples: sample ? [sample] : [],
+      };
+    } catch (ex) {
+      console.log(`[FrameSocket] Failed to parse incoming dataset: ${ex}`);
+      return {
+        response: null,
+        invalidPaths: [FRAME_DECODE_ERROR],
+        coalesced: 0,
+        requestIds: [],
+        samples: [],
+      };
+    }
+  };
+
+  /**
+   * Queues a frame, merging it into the previous frame when both are data frames
+   * and coalescing is on
+   *
+   * @param frame Decoded frame
+   */
+  private enqueue = (frame: DecodedFrame) => {
+    const last = this.queue[this.queue.length - 1];
+    if (this.coalescing && last && isDataFrame(last) && isDataFrame(frame)) {
+      // fields missing from the newer frame keep their previous values
+      last.response = { ...last.response, ...frame.response };
+      last.invalidPaths = last.invalidPaths.concat(frame.invalidPaths);
+      last.coalesced += frame.coalesced + 1;
+      last.requestIds = last.requestIds.concat(frame.requestIds);
+      last.samples = last.samples.concat(frame.samples);
+      return;
+    }
+    this.queue.push(frame);
+  };
+
+  /**
+   * Posts the queued frames unless the main thread is still busy with the previous batch
+   *
+   * @param force Post even if the main thread has not caught up yet
+   */
+  private flush = (force = false) => {
+    if (!this.queue.length || (this.waiting && !force)) {
+      return;
+    }
+    const frames = this.queue;
+    this.queue = [];
+    this.waiting = true;
+    this.post({ type: "frames", frames });
+  };
+}
@@ -0,0 +1,42 @@
+import { RoundTripMonitor } from "./round-trip-monitor";
+
+describe("RoundTripMonitor", () => {
+  it("has no stats until there is a sample", () => {
+    expect(new RoundTripMonitor(10).stats()).toEqual({
+      rttP50: null,
+      rttP95: null,
+      rttP99: null,
+      dropRate: null,
+      samples: 0,
+    });
+  });
+
+  it("computes percentiles and the drop rate", () => {
+    const monitor = new RoundTripMonitor(100);
+    for (let rtt = 1; rtt <= 99; rtt++) {
+      monitor.record(rtt);
+    }
+    monitor.drop();
+
+    expect(monitor.stats()).toEqual({
+      rttP50: 50,
+      rttP95: 95,
+      rttP99: 99,
+      dropRate: 0.01,
+      samples: 100,
+    });
+  });
+
+  it("only keeps the most recent requests", () => {
+    const monitor = new RoundTripMonitor(2);
+    monitor.drop();
+    monitor.record(100);
+    monitor.record(10);
+    monitor.record(20);
+
+    expect(monitor.stats()).toMatchObject({ rttP99: 20, dropRate: 0, samples: 2 });
+
+    monitor.reset();
+    expect(monitor.stats().samples).toBe(0);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Round trip times and drop rate over the most recent requests, null until there is a sample
+ */
+export interface NetworkStats {
+  rttP50: number;
+  rttP95: number;
+  rttP99: number;
+  /**
+   * Share of requests that got no reply before timing out (0 - 1)
+   */
+  dropRate: number;
+  samples: number;
+}
+
+/**
+ * Keeps a window of round trip times and reply outcomes for the network health readout
+ */
+export class RoundTripMonitor {
+  private rtts: number[];
+  private outcomes: boolean[];
+  private size: number;
+
+  /**
+   * Constructor
+   *
+   * @param size Number of requests the stats are computed over
+   */
+  constructor(size: number) {
+    this.rtts = [];
+    this.outcomes = [];
+    this.size = size;
+  }
+
+  /**
+   * Records a request that got a reply
+   *
+   * @param rtt Round trip time (ms)
+   */
+  public record = (rtt: number) => {
+    this.rtts.push(rtt);
+    this.outcomes.push(true);
+    this.trim();
+  };
+
+  /**
+   * Records a request that timed out
+   */
+  public drop = () => {
+    this.outcomes.push(false);
+    this.trim();
+  };
+
+  /**
+   * Forgets all samples, used when connecting to a new socket
+   */
+  public reset = () => {
+    this.rtts = [];
+    this.outcomes = [];
+  };
+
+  /**
+   * Computes the percentiles and drop rate over the window
+   *
+   * @returns NetworkStats
+   */
+  public stats = (): NetworkStats => {
+    const sorted = [...this.rtts].sort((a, b) => a - b);
+    const percentile = (p: number): number =>
+      sorted.length
+        ? sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)]
+        : null;
+    const drops = this.outcomes.filter((replied) => !replied).length;
+
+    return {
+      rttP50: percentile(0.5),
+      rttP95: percentile(0.95),
+      rttP99: percentile(0.99),
+      dropRate: this.outcomes.length ? drops / this.outcomes.length : null,
+      samples: this.outcomes.length,
+    };
+  };
+
+  private trim = () => {
+    if (this.rtts.length > this.size) {
+      this.rtts.shift();
+    }
+    if (this.outcomes.length > this.size) {
+      this.outcomes.shift();
+    }
+  };
+}
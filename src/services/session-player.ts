@@ -0,0 +1,273 @@
+import EventEmitter from "eventemitter3";
+import { DataResponse } from "../lib/data-response";
+import {
+  SESSION_FORMAT_VERSION,
+  SessionHeader,
+  SessionRecord,
+} from "../lib/session";
+
+export interface PlaybackProgress {
+  loaded: boolean;
+  fileName: string;
+  playing: boolean;
+  speed: number;
+  /**
+   * Playback position from the start of the session (ms)
+   */
+  position: number;
+  /**
+   * Session length (ms)
+   */
+  duration: number;
+  frame: number;
+  frameCount: number;
+}
+
+type SessionPlayerEvents = {
+  frame: [DataResponse, number];
+  reset: [DataResponse];
+  progress: [PlaybackProgress];
+};
+
+/**
+ * Frames between the merged responses kept for seeking
+ */
+const KEYFRAME_INTERVAL = 100;
+
+/**
+ * Plays back a session file written by the SessionRecorder
+ *
+ * Only the data frames are played back, offset and color correction events stay in the file
+ * for reference so a recording never overwrites the settings of the connected robot
+ *
+ * Frames are replies that only carry the fields they were polled for, so `frame` is merged
+ * into the shown response, and `reset` replaces it whenever playback jumps
+ */
+export class SessionPlayer extends EventEmitter<SessionPlayerEvents> {
+  private frames: SessionRecord[];
+  /**
+   * Response shown just before every KEYFRAME_INTERVAL-th frame, every frame before it merged
+   */
+  private keyframes: DataResponse[];
+  private fileName: string;
+  private index: number;
+  private timer: NodeJS.Timeout;
+  public playing: boolean;
+  public speed: number;
+
+  /**
+   * Constructor
+   */
+  constructor() {
+    super();
+    this.frames = [];
+    this.keyframes = [];
+    this.fileName = null;
+    this.index = -1;
+    this.timer = null;
+    this.playing = false;
+    this.speed = 1;
+  }
+
+  /**
+   * Is a session loaded, the app is driven by the player instead of the live socket while it is
+   */
+  public get active(): boolean {
+    return this.frames.length > 0;
+  }
+
+  /**
+   * Loads a session file, either gzip compressed or plain NDJSON
+   *
+   * @param file Session file
+   * @param fileName Name shown while the session is loaded
+   */
+  public load = async (file: Blob, fileName: string) => {
+    const magic = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+    const gzip = magic[0] === 0x1f && magic[1] === 0x8b;
+    const text = gzip
+      ? await new Response(
+          file.stream().pipeThrough(new DecompressionStream("gzip"))
+        ).text()
+      : await file.text();
+
+    const lines = text.split("\n").filter((line) => line.trim());
+    if (!lines.length) {
+      throw new Error("Session file is empty");
+    }
+    const header: SessionHeader = JSON.parse(lines[0]);
+    if (header.type !== "header" || header.version > SESSION_FORMAT_VERSION) {
+      throw new Error("Not a supported session file");
+    }
+
+    const frames = lines
+      .slice(1)
+      .map((line) => JSON.parse(line) as SessionRecord)
+      .filter((record) => record.type === "message");
+    if (!frames.length) {
+      throw new Error("Session file has no data frames");
+    }
+
+    this.pause();
+    this.frames = frames;
+    this.keyframes = [];
+    let response: DataResponse = null;
+    frames.forEach((frame, i) => {
+      if (i % KEYFRAME_INTERVAL === 0) {
+        this.keyframes.push(response);
+      }
+      response = { ...response, ...(frame.data as DataResponse) };
+    });
+    this.fileName = fileName;
+    this.index = -1;
+    this.showFrame(0);
+  };
+
+  /**
+   * Unloads the session and hands the app back to the live socket
+   */
+  public unload = () => {
+    this.pause();
+    this.frames = [];
+    this.keyframes = [];
+    this.fileName = null;
+    this.index = -1;
+    // nothing from the session stays on screen once the live socket takes over
+    this.emit("reset", null);
+    this.emitProgress();
+  };
+
+  public play = () => {
+    if (!this.active || this.playing) {
+      return;
+    }
+    if (this.index >= this.frames.length - 1) {
+      this.showFrame(0);
+    }
+    this.playing = true;
+    this.scheduleNext();
+    this.emitProgress();
+  };
+
+  public pause = () => {
+    clearTimeout(this.timer);
+    this.playing = false;
+    this.emitProgress();
+  };
+
+  /**
+   * Sets the playback speed
+   *
+   * @param speed Multiple of real time, e.g. 0.25 to 4
+   */
+  public setSpeed = (speed: number) => {
+    this.speed = speed;
+    if (this.playing) {
+      clearTimeout(this.timer);
+      this.scheduleNext();
+    }
+    this.emitProgress();
+  };
+
+  /**
+   * Pauses and moves a number of frames forward or back
+   *
+   * @param frames Frames to move, negative to go back
+   */
+  public step = (frames: number) => {
+    this.pause();
+    this.showFrame(
+      Math.min(this.frames.length - 1, Math.max(0, this.index + frames))
+    );
+  };
+
+  /**
+   * Jumps to the last frame received at or before a position
+   *
+   * @param position Time from the start of the session (ms)
+   */
+  public seek = (position: number) => {
+    if (!this.active) {
+      return;
+    }
+    const target = this.frames[0].t + position;
+    let low = 0;
+    let high = this.frames.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.frames[mid].t <= target) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    this.showFrame(low);
+    if (this.playing) {
+      clearTimeout(this.timer);
+      this.scheduleNext();
+    }
+  };
+
+  public progress = (): PlaybackProgress => {
+    const first = this.frames.length ? this.frames[0].t : 0;
+    const last = this.frames.length ? this.frames[this.frames.length - 1].t : 0;
+    return {
+      loaded: this.active,
+      fileName: this.fileName,
+      playing: this.playing,
+      speed: this.speed,
+      position: this.index >= 0 ? this.frames[this.index].t - first : 0,
+      duration: last - first,
+      frame: this.index,
+      frameCount: this.frames.length,
+    };
+  };
+
+  private emitProgress = () => {
+    this.emit("progress", this.progress());
+  };
+
+  /**
+   * Response shown just before a frame, from the nearest keyframe
+   *
+   * @param index Frame index
+   * @returns DataResponse
+   */
+  private responseBefore = (index: number): DataResponse => {
+    const keyframe = Math.floor(index / KEYFRAME_INTERVAL);
+    let response = this.keyframes[keyframe];
+    for (let i = keyframe * KEYFRAME_INTERVAL; i < index; i++) {
+      response = { ...response, ...(this.frames[i].data as DataResponse) };
+    }
+    return response;
+  };
+
+  private showFrame = (index: number) => {
+    // jumping would leave fields from the frames shown before on screen
+    if (index === 0 || index !== this.index + 1) {
+      this.emit("reset", this.responseBefore(index));
+    }
+    this.index = index;
+    const { data, t } = this.frames[index];
+    this.emit("frame", data as DataResponse, t);
+    this.emitProgress();
+  };
+
+  /**
+   * Waits the recorded gap between frames, scaled by the playback speed, before showing the next
+   */
+  private scheduleNext = () => {
+    if (this.index >= this.frames.length - 1) {
+      this.pause();
+      return;
+    }
+    const delay =
+      (this.frames[this.index + 1].t - this.frames[this.index].t) / this.speed;
+    this.timer = setTimeout(() => {
+      this.showFrame(this.index + 1);
+      this.scheduleNext();
+    }, delay);
+  };
+}
+
+export const sessionPlayer = new SessionPlayer();
@@ -0,0 +1,229 @@
+import EventEmitter from "eventemitter3";
+import { DataService } from "./data-service";
+import {
+  SESSION_FORMAT_VERSION,
+  SessionEventType,
+  SessionHeader,
+  SessionRecord,
+  sessionEventTypes,
+} from "../lib/session";
+
+export interface RecordingProgress {
+  recording: boolean;
+  /**
+   * Recording length (ms)
+   */
+  duration: number;
+  /**
+   * Size of the recorded file so far (bytes)
+   */
+  bytes: number;
+  frames: number;
+  /**
+   * Is a finished recording ready to download
+   */
+  available: boolean;
+}
+
+type SessionRecorderEvents = {
+  progress: [RecordingProgress];
+};
+
+/**
+ * Records every event from the data service to a gzip compressed NDJSON file
+ *
+ * The first line is a SessionHeader, every following line is a SessionRecord. Data frames
+ * aren't merged while recording, so every decoded frame is recorded
+ */
+export class SessionRecorder extends EventEmitter<SessionRecorderEvents> {
+  private dataService: DataService;
+  private handlers: { [type: string]: (data: unknown) => void };
+  private writer: WritableStreamDefaultWriter<BufferSource>;
+  private chunks: BlobPart[];
+  private collected: Promise<void>;
+  private timer: NodeJS.Timeout;
+  private encoder: TextEncoder;
+  private startedAt: number;
+  private stoppedAt: number;
+  private bytes: number;
+  private frames: number;
+  private blob: Blob;
+  public recording: boolean;
+
+  /**
+   * Constructor
+   */
+  constructor() {
+    super();
+    this.dataService = null;
+    this.handlers = {};
+    this.writer = null;
+    this.chunks = [];
+    this.collected = null;
+    this.timer = null;
+    this.encoder = new TextEncoder();
+    this.startedAt = null;
+    this.stoppedAt = null;
+    this.bytes = 0;
+    this.frames = 0;
+    this.blob = null;
+    this.recording = false;
+  }
+
+  /**
+   * Is the file gzip compressed, browsers without CompressionStream get plain NDJSON
+   */
+  public get compressed(): boolean {
+    return typeof CompressionStream !== "undefined";
+  }
+
+  /**
+   * Starts recording the events of a data service, discarding any previous recording
+   *
+   * @param dataService Service to record
+   */
+  public start = (dataService: DataService) => {
+    if (this.recording) {
+      return;
+    }
+
+    const stream = this.compressed
+      ? new CompressionStream("gzip")
+      : new TransformStream<BufferSource, Uint8Array<ArrayBuffer>>();
+    this.writer = stream.writable.getWriter();
+    this.chunks = [];
+    this.collected = this.collect(stream.readable);
+    this.startedAt = Date.now();
+    this.stoppedAt = null;
+    this.bytes = 0;
+    this.frames = 0;
+    this.blob = null;
+    this.recording = true;
+    this.dataService = dataService;
+
+    const header: SessionHeader = {
+      type: "header",
+      version: SESSION_FORMAT_VERSION,
+      startedAt: this.startedAt,
+      host: `${dataService.ip}:${dataService.port}`,
+    };
+    this.write(header);
+
+    sessionEventTypes.forEach((type) => {
+      this.handlers[type] = (data: unknown) => this.record(type, data);
+      dataService.on(type, this.handlers[type]);
+    });
+    dataService.setCoalescing(false);
+
+    this.timer = setInterval(this.emitProgress, 500);
+    this.emitProgress();
+  };
+
+  /**
+   * Stops recording and finishes the file
+   *
+   * @returns Promise<Blob> The recorded session
+   */
+  public stop = async (): Promise<Blob> => {
+    if (!this.recording) {
+      return this.blob;
+    }
+
+    sessionEventTypes.forEach((type) => {
+      this.dataService.off(type, this.handlers[type]);
+    });
+    this.dataService.setCoalescing(true);
+    this.handlers = {};
+    this.dataService = null;
+    this.recording = false;
+    this.stoppedAt = Date.now();
+    clearInterval(this.timer);
+
+    try {
+      await this.writer.close();
+      await this.collected;
+      this.blob = new Blob(this.chunks, {
+        type: this.compressed ? "application/gzip" : "application/x-ndjson",
+      });
+    } catch (ex) {
+      console.log(`[Session Recorder] Failed to finish the recording - ${ex}`);
+    }
+    this.chunks = [];
+    this.emitProgress();
+    return this.blob;
+  };
+
+  /**
+   * Saves the finished recording to disk
+   */
+  public download = () => {
+    if (!this.blob) {
+      return;
+    }
+    const url = URL.createObjectURL(this.blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `VEX_AI_session_${new Date(this.startedAt).toISOString()}.ndjson${
+      this.compressed ? ".gz" : ""
+    }`;
+    document.body.appendChild(link);
+    link.click();
+    link.parentNode.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  /**
+   * Current recording state
+   */
+  public progress = (): RecordingProgress => {
+    return {
+      recording: this.recording,
+      duration: this.startedAt
+        ? (this.stoppedAt ?? Date.now()) - this.startedAt
+        : 0,
+      bytes: this.bytes,
+      frames: this.frames,
+      available: this.blob !== null,
+    };
+  };
+
+  private emitProgress = () => {
+    this.emit("progress", this.progress());
+  };
+
+  /**
+   * Adds an event to the recording with its receive time
+   */
+  private record = (type: SessionEventType, data: unknown) => {
+    const record: SessionRecord = { t: Date.now(), type, data };
+    this.write(record);
+    if (type === "message") {
+      this.frames++;
+    }
+  };
+
+  private write = (line: SessionHeader | SessionRecord) => {
+    this.writer
+      .write(this.encoder.encode(`${JSON.stringify(line)}\n`))
+      .catch((ex) =>
+        console.log(`[Session Recorder] Failed to write record - ${ex}`)
+      );
+  };
+
+  /**
+   * Collects the (compressed) output and keeps count of its size
+   */
+  private collect = async (readable: ReadableStream<Uint8Array<ArrayBuffer>>) => {
+    const reader = readable.getReader();
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      this.chunks.push(value);
+      this.bytes += value.byteLength;
+    }
+  };
+}
+
+export const sessionRecorder = new SessionRecorder();
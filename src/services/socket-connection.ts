@@ -0,0 +1,128 @@
+import EventEmitter from "eventemitter3";
+import { DecodedFrame, FrameSocket, SocketMessage, SocketRequest } from "./frame-socket";
+
+type SocketConnectionEvents = {
+  open: [];
+  close: [];
+  frames: [DecodedFrame[]];
+};
+
+/**
+ * The parts of a socket connection the data service uses
+ */
+export type DataSocket = Pick<
+  SocketConnection,
+  "open" | "send" | "close" | "on" | "setCoalescing"
+>;
+
+/**
+ * Websocket connection whose socket and frame decoding run in a Web Worker
+ *
+ * Falls back to decoding on the main thread where workers are not available
+ */
+export class SocketConnection extends EventEmitter<SocketConnectionEvents> {
+  private worker: Worker;
+  private frameSocket: FrameSocket;
+  public open: boolean;
+
+  /**
+   * Constructor
+   *
+   * @param url Websocket server url
+   */
+  constructor(url: string) {
+    super();
+    this.worker = null;
+    this.frameSocket = null;
+    this.open = false;
+
+    if (typeof Worker !== "undefined") {
+      this.worker = new Worker(new URL("./socket.worker.ts", import.meta.url));
+      this.worker.onmessage = (event: MessageEvent<SocketMessage>) =>
+        this.receive(event.data);
+    } else {
+      this.frameSocket = new FrameSocket(this.receive);
+    }
+    this.post({ type: "connect", url });
+  }
+
+  /**
+   * Handles a message from the socket
+   *
+   * @param message Message from the worker
+   */
+  private receive = (message: SocketMessage) => {
+    switch (message.type) {
+      case "open":
+        this.open = true;
+        this.emit("open");
+        break;
+      case "close":
+        this.open = false;
+        this.worker?.terminate();
+        this.emit("close");
+        break;
+      case "frames":
+        this.emit("frames", message.frames);
+        this.ready();
+        break;
+      default:
+        break;
+    }
+  };
+
+  /**
+   * Tells the socket the frames were handled once the browser gets to paint them,
+   * until then new data frames are coalesced in the worker. Hidden tabs don't paint,
+   * so they are ready straight away
+   */
+  private ready = () => {
+    const hidden = typeof document !== "undefined" && document.hidden;
+    if (typeof requestAnimationFrame !== "undefined" && !hidden) {
+      requestAnimationFrame(() => this.post({ type: "ready" }));
+    } else {
+      setTimeout(() => this.post({ type: "ready" }));
+    }
+  };
+
+  /**
+   * Sends a message to the socket
+   *
+   * @param request Message for the worker
+   */
+  private post = (request: SocketRequest) => {
+    if (this.worker) {
+      this.worker.postMessage(request);
+    } else {
+      this.frameSocket.handle(request);
+    }
+  };
+
+  /**
+   * Sends a message to the websocket server
+   *
+   * @param data Message to send
+   */
+  public send = (data: string) => {
+    if (!this.open) {
+      throw new Error("socket is not open");
+    }
+    this.post({ type: "send", data });
+  };
+
+  /**
+   * Turns merging of data frames while the main thread is busy on or off
+   *
+   * @param enabled Merge data frames
+   */
+  public setCoalescing = (enabled: boolean) => {
+    this.post({ type: "coalesce", enabled });
+  };
+
+  /**
+   * Closes the websocket, the close event follows once it has closed
+   */
+  public close = () => {
+    this.post({ type: "close" });
+  };
+}
@@ -0,0 +1,12 @@
+import { FrameSocket, SocketRequest } from "./frame-socket";
+
+/**
+ * Web Worker that keeps the websocket and frame decoding off the main thread
+ */
+const context = self as unknown as Worker;
+
+const frameSocket = new FrameSocket((message) => context.postMessage(message));
+
+context.onmessage = (event: MessageEvent<SocketRequest>) => {
+  frameSocket.handle(event.data);
+};
@@ -0,0 +1,12 @@
+import { TextDecoder, TextEncoder } from "util";
+import { deserialize, serialize } from "v8";
+
+// jsdom doesn't provide the text codecs the MessagePack decoder needs
+Object.assign(global, { TextDecoder, TextEncoder });
+
+// nor structuredClone, which the runtime config copies templates with
+if (typeof global.structuredClone === "undefined") {
+  Object.assign(global, {
+    structuredClone: <T>(value: T): T => deserialize(serialize(value)),
+  });
+}
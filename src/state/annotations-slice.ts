@@ -0,0 +1,82 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { FieldNote, FieldPin } from "../lib/types";
+
+export interface AnnotationsState {
+  pins: FieldPin[];
+  notes: FieldNote[];
+}
+
+/**
+ * Loads the annotations of this browser session
+ *
+ * @returns AnnotationsState
+ */
+const getAnnotations = (): AnnotationsState => {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem("annotations") || "{}");
+    return {
+      pins: Array.isArray(saved.pins) ? saved.pins : [],
+      notes: Array.isArray(saved.notes) ? saved.notes : [],
+    };
+  } catch (ex) {
+    console.log(`[Annotations] Failed to load the saved annotations - ${ex}`);
+    return { pins: [], notes: [] };
+  }
+};
+
+/**
+ * Saves the annotations for the rest of the browser session
+ *
+ * @param state Annotations state
+ */
+const storeAnnotations = (state: AnnotationsState) => {
+  sessionStorage.setItem(
+    "annotations",
+    JSON.stringify({ pins: state.pins, notes: state.notes })
+  );
+};
+
+/**
+ * Next unused annotation id
+ *
+ * @param state Annotations state
+ * @returns number
+ */
+const nextId = (state: AnnotationsState): number => {
+  const ids = [...state.pins, ...state.notes].map((annotation) => annotation.id);
+  return Math.max(0, ...ids) + 1;
+};
+
+const initialState: AnnotationsState = getAnnotations();
+
+export const annotationsSlice = createSlice({
+  name: "annotations",
+  initialState,
+  reducers: {
+    addPin: (
+      state: AnnotationsState,
+      action: PayloadAction<Omit<FieldPin, "id">>
+    ) => {
+      state.pins.push({ ...action.payload, id: nextId(state) });
+      storeAnnotations(state);
+    },
+    removePin: (state: AnnotationsState, action: PayloadAction<number>) => {
+      state.pins = state.pins.filter((pin) => pin.id !== action.payload);
+      storeAnnotations(state);
+    },
+    addNote: (state: AnnotationsState, action: PayloadAction<number[]>) => {
+      state.notes.push({ id: nextId(state), points: action.payload });
+      storeAnnotations(state);
+    },
+    clearAnnotations: (state: AnnotationsState) => {
+      state.pins = [];
+      state.notes = [];
+      storeAnnotations(state);
+    },
+  },
+});
+
+export const { addPin, removePin, addNote, clearAnnotations } =
+  annotationsSlice.actions;
+
+export default annotationsSlice.reducer;
@@ -1,15 +1,28 @@
 import { PayloadAction, createSlice } from "@reduxjs/toolkit";
+import { configErrors } from "../util/runtime-config";
+import { FieldOrientation } from "../lib/types";
 
 export interface AppState {
   drawerOpen: boolean;
   settingsOpen: boolean;
   scale: number;
+  /**
+   * Rotation and mirroring the field is shown with right now, unlike the field orientation
+   * setting this includes the robot's heading while the view rotates with it
+   */
+  viewOrientation: FieldOrientation;
+  /**
+   * Problems found in config.json when the app loaded
+   */
+  configErrors: string[];
 }
 
 const initialState: AppState = {
   drawerOpen: false,
   settingsOpen: false,
   scale: 1,
+  viewOrientation: { rotation: 0, mirror: false },
+  configErrors: [...configErrors],
 };
 
 export const appSlice = createSlice({
@@ -31,6 +44,12 @@ export const appSlice = createSlice({
     setScale: (state: AppState, action: PayloadAction<number>) => {
       state.scale = action.payload;
     },
+    setViewOrientation: (state: AppState, action: PayloadAction<FieldOrientation>) => {
+      state.viewOrientation = action.payload;
+    },
+    dismissConfigErrors: (state: AppState) => {
+      state.configErrors = [];
+    },
   },
 });
 
@@ -40,6 +59,8 @@ export const {
   openSettings,
   closeSettings,
   setScale,
+  setViewOrientation,
+  dismissConfigErrors,
 } = appSlice.actions;
 
 export default appSlice.reducer;
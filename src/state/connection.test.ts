@@ -0,0 +1,222 @@
+import EventEmitter from "eventemitter3";
+import { configureStore } from "@reduxjs/toolkit";
+import appReducer from "./app-slice";
+import dataReducer, { addSubscription } from "./data-slice";
+import diagnosticsReducer from "./diagnostics-slice";
+import settingsReducer, { setHost } from "./settings-slice";
+import playbackReducer from "./playback-slice";
+import annotationsReducer from "./annotations-slice";
+import historyReducer from "./history-slice";
+import { history, historyMiddleware } from "./history";
+import { connect, createConnectionMiddleware, disconnect, saveGpsOffset } from "./connection";
+import { DataResponse } from "../lib/data-response";
+import { commands } from "../lib/commands";
+import { sampleOf } from "../lib/samples";
+import { DecodedFrame } from "../services/frame-socket";
+import { DataSocket } from "../services/socket-connection";
+import { ConnectionState } from "../lib/types";
+
+// the real socket starts a web worker, the tests hand the data service a fake socket instead
+jest.mock("../services/socket-connection", () => ({}));
+
+/**
+ * Socket that answers requests like a brain, without a network
+ */
+class FakeSocket extends EventEmitter<{
+  open: [];
+  close: [];
+  frames: [DecodedFrame[]];
+}> {
+  public open: boolean;
+  public url: string;
+  public sent: string[];
+  private gpsOffset: string;
+
+  /**
+   * Constructor
+   *
+   * @param url Websocket server url
+   */
+  constructor(url: string) {
+    super();
+    this.open = false;
+    this.url = url;
+    this.sent = [];
+    this.gpsOffset = "0,0,0,meters,0";
+    setTimeout(() => {
+      this.open = true;
+      this.emit("open");
+    });
+  }
+
+  public send = (data: string) => {
+    this.sent.push(data);
+    const [command, ...args] = data.split(",");
+    const id = args.find((arg) => arg.startsWith("id="));
+    const requestId = id ? Number(id.slice(3)) : undefined;
+    const values = args.filter((arg) => arg !== id);
+    const response = this.reply(command, values);
+    if (response) {
+      setTimeout(() =>
+        this.emit("frames", [
+          {
+            response: { ...response, requestId },
+            invalidPaths: [],
+            coalesced: 0,
+            requestIds: requestId !== undefined ? [requestId] : [],
+            samples: [sampleOf(response, Date.now())].filter((sample) => sample),
+          },
+        ])
+      );
+    }
+  };
+
+  public close = () => {
+    if (this.open) {
+      this.open = false;
+      this.emit("close");
+    }
+  };
+
+  public setCoalescing = () => undefined;
+
+  private reply = (command: string, args: string[]): DataResponse => {
+    switch (command) {
+      case commands.gHello:
+        return {
+          command,
+          hello: {
+            version: 1,
+            commands: [commands.gPos, commands.gGetGpsOffset, commands.gSetGpsOffset],
+          },
+        };
+      case commands.gPos:
+        return { command, position: { x: 1, y: 2, azimuth: 90 } };
+      case commands.gSetGpsOffset:
+        this.gpsOffset = args.join(",");
+        return { command };
+      case commands.gGetGpsOffset: {
+        const [x, y, z, unit, headingOffset] = this.gpsOffset.split(",");
+        return {
+          command,
+          gpsOffset: {
+            x: Number(x),
+            y: Number(y),
+            z: Number(z),
+            unit,
+            headingOffset: Number(headingOffset),
+          },
+        };
+      }
+      default:
+        return null;
+    }
+  };
+}
+
+/**
+ * Creates a store wired like the app's, with the socket replaced by a fake one
+ *
+ * @returns The store and the sockets it opened
+ */
+const createTestStore = () => {
+  const sockets: FakeSocket[] = [];
+  const connection = createConnectionMiddleware((url): DataSocket => {
+    const socket = new FakeSocket(url);
+    sockets.push(socket);
+    return socket as unknown as DataSocket;
+  });
+  const store = configureStore({
+    reducer: {
+      app: appReducer,
+      data: dataReducer,
+      diagnostics: diagnosticsReducer,
+      settings: settingsReducer,
+      playback: playbackReducer,
+      annotations: annotationsReducer,
+      history: historyReducer,
+    },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware({
+        thunk: { extraArgument: connection.extra },
+      }).concat(historyMiddleware, connection.middleware),
+  });
+  return { store, sockets };
+};
+
+/**
+ * Waits until a condition holds
+ *
+ * @param condition Condition to wait for
+ */
+const waitFor = async (condition: () => boolean) => {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > 2000) {
+      throw new Error("timed out waiting for the condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe("connection middleware", () => {
+  let errors: jest.SpyInstance;
+
+  beforeEach(() => {
+    // the serializable and immutable checks report through console.error
+    errors = jest.spyOn(console, "error");
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("opens the socket from the settings and turns frames into actions", async () => {
+    const { store, sockets } = createTestStore();
+    store.dispatch(setHost({ ip: "10.0.0.2", port: "3030", streamPort: "", streamPath: "" }));
+    store.dispatch(addSubscription([commands.gPos]));
+    store.dispatch(connect());
+
+    await waitFor(() => !!store.getState().data.response?.position);
+
+    const state = store.getState();
+    expect(sockets).toHaveLength(1);
+    expect(sockets[0].url).toBe("ws://10.0.0.2:3030");
+    expect(state.data.dataServiceConnected).toBe(true);
+    expect(state.data.connectionState).toBe(ConnectionState.Open);
+    expect(state.data.hello.version).toBe(1);
+    expect(state.data.response.position).toEqual({ x: 1, y: 2, azimuth: 90 });
+    expect(history.positions.length).toBeGreaterThan(0);
+    expect(errors).not.toHaveBeenCalled();
+
+    store.dispatch(disconnect());
+    expect(store.getState().data.connectionState).toBe(ConnectionState.Closed);
+    expect(sockets[0].open).toBe(false);
+  });
+
+  it("saves the GPS offset on the brain and stores what it reads back", async () => {
+    const { store, sockets } = createTestStore();
+    store.dispatch(connect());
+    await waitFor(() => store.getState().data.hello !== null);
+
+    const offset = await store.dispatch(saveGpsOffset("0.1,0.2,0,meters,5")).unwrap();
+
+    expect(offset).toEqual({ x: 0.1, y: 0.2, z: 0, unit: "meters", headingOffset: 5 });
+    expect(store.getState().settings.gpsOffset).toEqual(offset);
+    expect(sockets[0].sent).toContainEqual(
+      expect.stringMatching(/^set_gps_offset,0.1,0.2,0,meters,5,id=\d+$/)
+    );
+    expect(errors).not.toHaveBeenCalled();
+
+    store.dispatch(disconnect());
+  });
+
+  it("rejects commands while disconnected", async () => {
+    const { store } = createTestStore();
+
+    await expect(
+      store.dispatch(saveGpsOffset("0,0,0,meters,0")).unwrap()
+    ).rejects.toMatchObject({ message: "not connected" });
+  });
+});
@@ -0,0 +1,281 @@
+import { createAction, createAsyncThunk, Middleware } from "@reduxjs/toolkit";
+import { DataService, SocketFactory } from "../services/data-service";
+import { sessionRecorder } from "../services/session-recorder";
+import {
+  ColorCorrection,
+  DataResponse,
+  Goal,
+  Hello,
+  Offset,
+} from "../lib/data-response";
+import { ConnectionState, Host } from "../lib/types";
+import { commands } from "../lib/commands";
+import { batchPerAnimationFrame } from "../lib/frame-batcher";
+import { FrameSample } from "../lib/samples";
+import { NetworkStats } from "../services/round-trip-monitor";
+import { sessionPlayer } from "../services/session-player";
+import {
+  addSubscription,
+  removeSubscription,
+  setConnectionState,
+  setDataServiceConnected,
+  setGoal,
+  setHello,
+  updateResponse,
+} from "./data-slice";
+import {
+  setCameraOffset,
+  setColorCorrection,
+  setGpsOffset,
+  setHost,
+  setRates,
+  selectProfile,
+} from "./settings-slice";
+import { recordDecodeErrors, setNetworkStats } from "./diagnostics-slice";
+import { recordSamples } from "./history-slice";
+
+/**
+ * Connects to the websocket server in the settings
+ */
+export const connect = createAction("connection/connect");
+
+/**
+ * Closes the connection and stops reconnecting
+ */
+export const disconnect = createAction("connection/disconnect");
+
+/**
+ * Saves the host edited in the settings and reconnects to it
+ */
+export const changeHost = createAction<Host>("connection/changeHost");
+
+/**
+ * Skips the reconnect backoff and tries to connect straight away
+ */
+export const reconnectNow = createAction("connection/reconnectNow");
+
+/**
+ * Starts recording the session from the live connection
+ */
+export const startRecording = createAction("connection/startRecording");
+
+/**
+ * Gives thunks access to the data service owned by the connection middleware
+ */
+export interface ConnectionExtra {
+  getDataService: () => DataService;
+}
+
+/**
+ * Runs a command against the connected data service
+ *
+ * @param extra Thunk extra argument
+ * @param run Command to run
+ * @returns Promise<T>
+ */
+const withDataService = <T>(
+  extra: unknown,
+  run: (dataService: DataService) => Promise<T>
+): Promise<T> => {
+  const dataService = (extra as ConnectionExtra).getDataService();
+  return dataService ? run(dataService) : Promise.reject(new Error("not connected"));
+};
+
+/**
+ * Saves the camera offset on the brain and reads it back
+ */
+export const saveCameraOffset = createAsyncThunk(
+  "connection/saveCameraOffset",
+  (offset: string, { extra }) =>
+    withDataService(extra, (dataService) =>
+      dataService.setCameraOffset(offset).then(() => dataService.getCameraOffset())
+    )
+);
+
+/**
+ * Saves the GPS offset on the brain and reads it back
+ */
+export const saveGpsOffset = createAsyncThunk(
+  "connection/saveGpsOffset",
+  (offset: string, { extra }) =>
+    withDataService(extra, (dataService) =>
+      dataService.setGpsOffset(offset).then(() => dataService.getGpsOffset())
+    )
+);
+
+/**
+ * Saves the color correction on the brain and reads it back
+ */
+export const saveColorCorrection = createAsyncThunk(
+  "connection/saveColorCorrection",
+  (colorCorrection: string, { extra }) =>
+    withDataService(extra, (dataService) =>
+      dataService
+        .setColorCorrection(colorCorrection)
+        .then(() => dataService.getColorCorrection())
+    )
+);
+
+/**
+ * Sends a navigation goal to the brain, resolves once the brain acknowledges it
+ */
+export const sendGoal = createAsyncThunk(
+  "connection/sendGoal",
+  (goal: Goal, { extra }) =>
+    withDataService(extra, (dataService) => dataService.setGoal(goal))
+);
+
+/**
+ * Cancels the navigation goal on the brain
+ */
+export const clearGoal = createAsyncThunk(
+  "connection/clearGoal",
+  (_: void, { extra }) =>
+    withDataService(extra, (dataService) => dataService.clearGoal())
+);
+
+/**
+ * Creates the middleware that owns the data service and turns its events into actions
+ *
+ * @param createSocket Opens the socket, replaced by a fake socket in tests
+ * @returns The middleware and a getter for the thunk extra argument
+ */
+export const createConnectionMiddleware = (createSocket?: SocketFactory) => {
+  let dataService: DataService = null;
+
+  const middleware: Middleware = (api) => {
+    /**
+     * Wires the data service events to actions
+     *
+     * @param service Data service to wire up
+     */
+    const listen = (service: DataService) => {
+      // frames arriving between paints are merged into a single store update
+      const dispatchResponse = batchPerAnimationFrame<DataResponse>(
+        (pending, msg) => ({ ...pending, ...msg }),
+        (msg) => api.dispatch(updateResponse(msg))
+      );
+      // while every frame keeps its own history sample and receive time
+      const dispatchSamples = batchPerAnimationFrame<FrameSample[]>(
+        (pending, samples) => pending.concat(samples),
+        (samples) => api.dispatch(recordSamples(samples))
+      );
+
+      service.on("connectionStateChanged", (state: ConnectionState, retryAt: number) => {
+        api.dispatch(setConnectionState({ state, retryAt }));
+      });
+      service.on("socketConnected", () => {
+        api.dispatch(setDataServiceConnected(true));
+      });
+      // settings are read once the handshake says which commands the brain supports
+      service.on("hello", (hello: Hello) => {
+        api.dispatch(setHello(hello));
+        Promise.all([
+          service.supports(commands.gGetCameraOffset) ? service.getCameraOffset() : null,
+          service.supports(commands.gGetGpsOffset) ? service.getGpsOffset() : null,
+          service.supports(commands.gGetColorCorrection)
+            ? service.getColorCorrection()
+            : null,
+        ]).catch((ex) => console.log(`[Connection] ${ex.message}`));
+      });
+      service.on("message", (msg: DataResponse, samples: FrameSample[]) => {
+        // a loaded session drives the app instead of the live socket
+        if (!sessionPlayer.active) {
+          dispatchResponse(msg);
+          if (samples.length) {
+            dispatchSamples(samples);
+          }
+        }
+      });
+      service.on("decodeErrors", (paths: string[]) => {
+        api.dispatch(recordDecodeErrors(paths));
+      });
+      service.on("networkStats", (stats: NetworkStats) => {
+        api.dispatch(setNetworkStats(stats));
+      });
+      service.on("getCameraOffset", (offset: Offset) => {
+        api.dispatch(setCameraOffset(offset));
+      });
+      service.on("getGpsOffset", (offset: Offset) => {
+        api.dispatch(setGpsOffset(offset));
+      });
+      service.on("getColorCorrection", (colorCorrection: ColorCorrection) => {
+        api.dispatch(setColorCorrection(colorCorrection));
+      });
+      service.on("setGoal", (goal: Goal) => {
+        api.dispatch(setGoal(goal));
+      });
+      service.on("clearGoal", () => {
+        api.dispatch(setGoal(null));
+      });
+      service.on("socketConnectionClosed", () => {
+        // the goal is kept, the brain may still be driving to it after a reconnect
+        api.dispatch(setDataServiceConnected(false));
+      });
+    };
+
+    /**
+     * Stops the data service and removes its listeners
+     */
+    const close = () => {
+      if (!dataService) {
+        return;
+      }
+      sessionRecorder.stop();
+      dataService.stop();
+      dataService.removeAllListeners();
+      dataService = null;
+      api.dispatch(setDataServiceConnected(false));
+    };
+
+    return (next) => (action) => {
+      const result = next(action);
+      if (changeHost.match(action)) {
+        // edits in the settings only reach the saved host once they are saved
+        api.dispatch(setHost(action.payload));
+      }
+      const state = api.getState();
+
+      if (connect.match(action)) {
+        close();
+        const { socketIp, socketPort, rates } = state.settings;
+        dataService = new DataService(socketIp, socketPort, createSocket);
+        listen(dataService);
+        dataService.setRates(rates);
+        dataService.setSubscriptions(Object.keys(state.data.subscriptions));
+      } else if (disconnect.match(action)) {
+        close();
+      } else if (!dataService) {
+        return result;
+      } else if (changeHost.match(action)) {
+        dataService.ip = action.payload.ip;
+        dataService.port = action.payload.port;
+        dataService.restart();
+        // the goal belonged to the previous robot
+        api.dispatch(setGoal(null));
+      } else if (selectProfile.match(action)) {
+        const { socketIp, socketPort, rates } = state.settings;
+        dataService.ip = socketIp;
+        dataService.port = socketPort;
+        dataService.setRates(rates);
+        dataService.restart();
+        api.dispatch(setGoal(null));
+      } else if (reconnectNow.match(action)) {
+        dataService.reconnect();
+      } else if (startRecording.match(action)) {
+        sessionRecorder.start(dataService);
+      } else if (setRates.match(action)) {
+        dataService.setRates(state.settings.rates);
+      } else if (addSubscription.match(action) || removeSubscription.match(action)) {
+        dataService.setSubscriptions(Object.keys(state.data.subscriptions));
+      }
+      return result;
+    };
+  };
+
+  const extra: ConnectionExtra = {
+    getDataService: () => dataService,
+  };
+
+  return { middleware, extra };
+};
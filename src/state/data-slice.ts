@@ -1,24 +1,53 @@
 import { createSlice, PayloadAction } from "@reduxjs/toolkit";
-import { DataResponse } from "../lib/data-response";
-import { DataService } from "../services/data-service";
+import { DataResponse, Goal, Hello } from "../lib/data-response";
+import { ConnectionState } from "../lib/types";
 
 export interface DataState {
   response: DataResponse;
   dataServiceConnected: boolean;
-  dataService: DataService;
+  connectionState: ConnectionState;
+  /**
+   * When the next reconnect attempt happens (ms since epoch)
+   */
+  reconnectAt: number;
+  /**
+   * Handshake reply from the connected brain, null for brains without a handshake
+   */
+  hello: Hello;
+  /**
+   * Number of mounted components subscribed to each data command
+   */
+  subscriptions: { [command: string]: number };
+  /**
+   * Navigation goal the brain acknowledged, null when there is none
+   */
+  goal: Goal;
 }
 
 const initialState: DataState = {
   response: null,
   dataServiceConnected: false,
-  dataService: null,
+  connectionState: ConnectionState.Connecting,
+  reconnectAt: null,
+  hello: null,
+  subscriptions: {},
+  goal: null,
 };
 
 export const dataSlice = createSlice({
   name: "data",
   initialState,
   reducers: {
+    /**
+     * Merges a reply into the response, fields the reply doesn't include keep their last value
+     */
     updateResponse: (state: DataState, action: PayloadAction<DataResponse>) => {
+      state.response = { ...state.response, ...action.payload };
+    },
+    /**
+     * Replaces the response, e.g. when session playback jumps
+     */
+    setResponse: (state: DataState, action: PayloadAction<DataResponse>) => {
       state.response = action.payload;
     },
     setDataServiceConnected: (
@@ -27,13 +56,45 @@ export const dataSlice = createSlice({
     ) => {
       state.dataServiceConnected = action.payload;
     },
-    setDataService: (state: DataState, action: PayloadAction<DataService>) => {
-      state.dataService = action.payload;
+    setConnectionState: (
+      state: DataState,
+      action: PayloadAction<{ state: ConnectionState; retryAt: number }>
+    ) => {
+      state.connectionState = action.payload.state;
+      state.reconnectAt = action.payload.retryAt;
+    },
+    setHello: (state: DataState, action: PayloadAction<Hello>) => {
+      state.hello = action.payload;
+    },
+    setGoal: (state: DataState, action: PayloadAction<Goal>) => {
+      state.goal = action.payload;
+    },
+    addSubscription: (state: DataState, action: PayloadAction<string[]>) => {
+      action.payload.forEach((command) => {
+        state.subscriptions[command] = (state.subscriptions[command] ?? 0) + 1;
+      });
+    },
+    removeSubscription: (state: DataState, action: PayloadAction<string[]>) => {
+      action.payload.forEach((command) => {
+        if (state.subscriptions[command] > 1) {
+          state.subscriptions[command]--;
+        } else {
+          delete state.subscriptions[command];
+        }
+      });
     },
   },
 });
 
-export const { setDataServiceConnected, updateResponse, setDataService } =
-  dataSlice.actions;
+export const {
+  setDataServiceConnected,
+  updateResponse,
+  setResponse,
+  setConnectionState,
+  setHello,
+  setGoal,
+  addSubscription,
+  removeSubscription,
+} = dataSlice.actions;
 
 export default dataSlice.reducer;
@@ -0,0 +1,60 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { NetworkStats } from "../services/round-trip-monitor";
+
+export interface DiagnosticsState {
+  /**
+   * Number of dropped values per field, array indices are collapsed so
+   * `Detections[3].depth` is counted as `Detections[].depth`
+   */
+  decodeErrors: { [field: string]: number };
+  totalDecodeErrors: number;
+  /**
+   * When the last decode error happened (ms since epoch)
+   */
+  lastDecodeErrorAt: number;
+  /**
+   * Round trip percentiles and drop rate of recent requests
+   */
+  network: NetworkStats;
+}
+
+const initialState: DiagnosticsState = {
+  decodeErrors: {},
+  totalDecodeErrors: 0,
+  lastDecodeErrorAt: null,
+  network: null,
+};
+
+export const diagnosticsSlice = createSlice({
+  name: "diagnostics",
+  initialState,
+  reducers: {
+    recordDecodeErrors: (
+      state: DiagnosticsState,
+      action: PayloadAction<string[]>
+    ) => {
+      action.payload.forEach((path) => {
+        const field = path.replace(/\[\d+\]/g, "[]");
+        state.decodeErrors[field] = (state.decodeErrors[field] ?? 0) + 1;
+      });
+      state.totalDecodeErrors += action.payload.length;
+      state.lastDecodeErrorAt = Date.now();
+    },
+    setNetworkStats: (
+      state: DiagnosticsState,
+      action: PayloadAction<NetworkStats>
+    ) => {
+      state.network = action.payload;
+    },
+    clearDecodeErrors: (state: DiagnosticsState) => {
+      state.decodeErrors = {};
+      state.totalDecodeErrors = 0;
+      state.lastDecodeErrorAt = null;
+    },
+  },
+});
+
+export const { recordDecodeErrors, setNetworkStats, clearDecodeErrors } =
+  diagnosticsSlice.actions;
+
+export default diagnosticsSlice.reducer;
@@ -0,0 +1,63 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { FrameSample } from "../lib/samples";
+
+export interface HistoryState {
+  /**
+   * Time of the newest sample (ms since epoch)
+   */
+  updatedAt: number;
+  /**
+   * Incremented whenever the history changes, the samples, tracker, heatmap and memory
+   * are kept outside the store by the history middleware
+   */
+  version: number;
+}
+
+const initialState: HistoryState = {
+  updatedAt: 0,
+  version: 0,
+};
+
+export const historySlice = createSlice({
+  name: "history",
+  initialState,
+  reducers: {
+    /**
+     * Adds the samples of the frames received since the last paint, the history
+     * middleware pushes them into its buffers
+     */
+    recordSamples: (
+      state: HistoryState,
+      action: PayloadAction<FrameSample[]>
+    ) => {
+      if (action.payload.length) {
+        state.updatedAt = action.payload[action.payload.length - 1].t;
+        state.version++;
+      }
+    },
+    clearHistory: (state: HistoryState) => {
+      return { ...initialState, version: state.version + 1 };
+    },
+    /**
+     * Drops tracked detections that weren't seen for too long by a time (ms since epoch),
+     * the history middleware updates the tracker
+     */
+    expireTracks: {
+      reducer: (state: HistoryState) => {
+        state.version++;
+      },
+      prepare: (t: number) => ({ payload: t }),
+    },
+    /**
+     * Clears the robot's path, the positions and the heatmap, and keeps the rest
+     */
+    clearTrail: (state: HistoryState) => {
+      state.version++;
+    },
+  },
+});
+
+export const { recordSamples, clearHistory, clearTrail, expireTracks } =
+  historySlice.actions;
+
+export default historySlice.reducer;
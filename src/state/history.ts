@@ -0,0 +1,210 @@
+import { createSelector, Middleware } from "@reduxjs/toolkit";
+import { Detection, Position, Stats } from "../lib/data-response";
+import { RingBuffer } from "../lib/ring-buffer";
+import { Sample } from "../lib/samples";
+import { CoverageGrid } from "../lib/coverage-grid";
+import { DetectionTracker } from "../lib/detection-tracker";
+import { WorldMemory } from "../lib/world-memory";
+import { config } from "../util/config";
+import {
+  clearHistory,
+  clearTrail,
+  expireTracks,
+  recordSamples,
+} from "./history-slice";
+import type { RootState } from "./store";
+
+/**
+ * Recent positions, detections and stats with the time each frame was received, and the
+ * state derived from them as they are recorded
+ *
+ * Kept outside the store so frames are pushed in place instead of copied by immer,
+ * `state.history.version` tells selectors when they changed
+ */
+export const history = {
+  positions: new RingBuffer<Position>(config.history.capacity),
+  detections: new RingBuffer<Detection[]>(config.history.capacity),
+  stats: new RingBuffer<Stats>(config.history.capacity),
+  /**
+   * Every position this session, unlike the samples it isn't limited in time
+   */
+  coverage: new CoverageGrid(
+    config.heatmap.cellSize,
+    config.games[config.defaultGame].field.dimension / 2
+  ),
+  /**
+   * Detections followed across frames
+   */
+  tracker: new DetectionTracker(config.tracking),
+  /**
+   * Where tracked elements were last seen, including those out of view
+   */
+  memory: new WorldMemory({ ...config.memory, fov: config.field.robot.fov }),
+};
+
+/**
+ * Pushes every recorded sample into the buffers and, at the time its frame was received,
+ * feeds it to the derived state
+ *
+ * Tracks are also expired when detections stop arriving, otherwise the last tracks
+ * would stay on screen until the next detections
+ */
+export const historyMiddleware: Middleware = (api) => {
+  let expireTimer: ReturnType<typeof setTimeout> = null;
+
+  /**
+   * Expires the tracks once they outlive the keep alive without new detections
+   *
+   * @param t Time of the latest detections (ms since epoch)
+   */
+  const scheduleExpiry = (t: number) => {
+    clearTimeout(expireTimer);
+    expireTimer = setTimeout(() => {
+      expireTimer = null;
+      if (history.tracker.current().length) {
+        api.dispatch(expireTracks(t + config.tracking.keepAlive + 1));
+      }
+    }, config.tracking.keepAlive + 1);
+  };
+
+  /**
+   * Empties the buffers and the derived state
+   */
+  const clear = () => {
+    history.positions.clear();
+    history.detections.clear();
+    history.stats.clear();
+    history.coverage.clear();
+    history.tracker.clear();
+    history.memory.clear();
+  };
+
+  return (next) => (action) => {
+    if (recordSamples.match(action)) {
+      const state: RootState = api.getState();
+      let { updatedAt } = state.history;
+      const game =
+        config.games[state.settings.gameProfile] ?? config.games[config.defaultGame];
+      history.coverage.extent = game.field.dimension / 2;
+      action.payload.forEach((sample) => {
+        // a session played back from an earlier point starts a new timeline
+        if (sample.t < updatedAt) {
+          clear();
+        }
+        updatedAt = sample.t;
+        if (sample.position) {
+          history.positions.push(sample.t, sample.position);
+          history.coverage.add(sample.position.x, sample.position.y);
+        }
+        if (sample.detections) {
+          history.detections.push(sample.t, sample.detections);
+          const tracks = history.tracker.update(sample.detections, sample.t);
+          history.memory.update(
+            tracks,
+            history.positions.latest()?.value ?? null,
+            sample.t
+          );
+          scheduleExpiry(sample.t);
+        }
+        if (sample.stats) {
+          history.stats.push(sample.t, sample.stats);
+        }
+      });
+    } else if (expireTracks.match(action)) {
+      history.tracker.expire(action.payload);
+    } else if (clearHistory.match(action)) {
+      clearTimeout(expireTimer);
+      clear();
+    } else if (clearTrail.match(action)) {
+      history.positions.clear();
+      history.coverage.clear();
+    }
+    return next(action);
+  };
+};
+
+const selectHistoryVersion = (state: RootState) => state.history.version;
+
+/**
+ * Samples within a number of seconds of the newest sample
+ *
+ * @param buffer History buffer
+ * @param seconds Length of the window (s)
+ * @returns Sample<T>[]
+ */
+const windowOf = <T>(buffer: RingBuffer<T>, seconds: number): Sample<T>[] => {
+  const latest = buffer.latest();
+  const span = Math.min(seconds, config.history.seconds) * 1000;
+  return latest ? buffer.since(latest.t - span) : [];
+};
+
+/**
+ * Creates one memoized selector per argument, so components passing the same
+ * argument share a selector and only recompute when the history changes
+ *
+ * @param create Creates the selector for an argument
+ * @returns (arg: K) => (state: RootState) => R
+ */
+const selectorPerArg = <K, R>(create: (arg: K) => (state: RootState) => R) => {
+  const selectors = new Map<K, (state: RootState) => R>();
+  return (arg: K): ((state: RootState) => R) => {
+    if (!selectors.has(arg)) {
+      selectors.set(arg, create(arg));
+    }
+    return selectors.get(arg);
+  };
+};
+
+/**
+ * Robot positions over the last seconds, oldest first
+ */
+export const selectPositionHistory = selectorPerArg((seconds: number) =>
+  createSelector([selectHistoryVersion], () =>
+    windowOf(history.positions, seconds)
+  )
+);
+
+/**
+ * Detections over the last seconds, oldest first
+ */
+export const selectDetectionHistory = selectorPerArg((seconds: number) =>
+  createSelector([selectHistoryVersion], () =>
+    windowOf(history.detections, seconds)
+  )
+);
+
+/**
+ * One numeric stat over the whole history, e.g. `selectStatsSeries("fps")`
+ */
+export const selectStatsSeries = selectorPerArg((key: keyof Stats) =>
+  createSelector([selectHistoryVersion], () =>
+    windowOf(history.stats, config.history.seconds)
+      .filter((sample) => typeof sample.value[key] === "number")
+      .map((sample) => ({ t: sample.t, value: sample.value[key] as number }))
+  )
+);
+
+/**
+ * Changes whenever the heatmap's coverage grid changes
+ *
+ * @returns number
+ */
+export const selectCoverageVersion = (): number => history.coverage.version;
+
+/**
+ * Tracked detections, only a new array when detections arrive
+ */
+export const selectTracks = createSelector([selectHistoryVersion], () =>
+  history.tracker.current()
+);
+
+/**
+ * Remembered elements that were out of view in the latest frame
+ */
+export const selectRememberedElements = createSelector(
+  [selectHistoryVersion],
+  () => {
+    const elements = history.memory.current();
+    return elements.filter((element) => element.lastSeen < history.memory.updatedAt);
+  }
+);
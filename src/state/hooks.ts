@@ -1,6 +1,79 @@
+import { useEffect } from "react";
 import { useDispatch, useSelector } from "react-redux";
 import type { TypedUseSelectorHook } from "react-redux";
 import type { RootState, RootDispatch } from "./store";
+import { supportsCommand } from "../services/data-service";
+import { Topic, topics } from "../lib/commands";
+import { GameProfile } from "../lib/types";
+import { config } from "../util/config";
+import { ShownDetection } from "../lib/detection-tracker";
+import { selectTracks } from "./history";
+import { addSubscription, removeSubscription } from "./data-slice";
 
 export const useAppDispatch: () => RootDispatch = useDispatch;
 export const useAppSelector: TypedUseSelectorHook<RootState> = useSelector;
+
+/**
+ * Does the connected brain support a command
+ *
+ * @param command Command to check
+ * @returns boolean
+ */
+export const useSupportsCommand = (command: string): boolean =>
+  useAppSelector((state) => supportsCommand(state.data.hello, command));
+
+/**
+ * Game the field and detections are drawn for, the default game if the selected one is gone
+ *
+ * @returns GameProfile
+ */
+export const useGameProfile = (): GameProfile =>
+  useAppSelector(
+    (state) =>
+      config.games[state.settings.gameProfile] ?? config.games[config.defaultGame]
+  );
+
+/**
+ * Detections to draw, tracked across frames unless raw detections are turned on in the settings
+ *
+ * @returns ShownDetection[]
+ */
+export const useDetections = (): ShownDetection[] => {
+  const raw = useAppSelector((state) => state.settings.showRawDetections === "true");
+  return useAppSelector((state) =>
+    raw ? state.data.response?.detections ?? null : selectTracks(state)
+  );
+};
+
+/**
+ * Rotation and flip that keep text on the field readable however the field is shown,
+ * including while the view rotates with the robot
+ *
+ * @returns { rotation: number; scaleX: number }
+ */
+export const useUprightText = () => {
+  const { rotation, mirror } = useAppSelector((state) => state.app.viewOrientation);
+  // the view mirrors after rotating, so a mirrored view turns text the other way
+  return mirror ? { rotation, scaleX: -1 } : { rotation: -rotation, scaleX: 1 };
+};
+
+/**
+ * Subscribes the component to data topics while it is mounted
+ *
+ * @param subscribed Topics the component needs, e.g. ["pos", "detect"]
+ */
+export const useDataSubscription = (subscribed: Topic[]) => {
+  const dispatch = useAppDispatch();
+  const key = subscribed.join(",");
+
+  useEffect(() => {
+    if (!key) {
+      return undefined;
+    }
+    const commands = key.split(",").map((topic) => topics[topic as Topic]);
+    dispatch(addSubscription(commands));
+    return () => {
+      dispatch(removeSubscription(commands));
+    };
+  }, [key]);
+};
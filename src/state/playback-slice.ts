@@ -0,0 +1,32 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { PlaybackProgress } from "../services/session-player";
+
+export type PlaybackState = PlaybackProgress;
+
+const initialState: PlaybackState = {
+  loaded: false,
+  fileName: null,
+  playing: false,
+  speed: 1,
+  position: 0,
+  duration: 0,
+  frame: -1,
+  frameCount: 0,
+};
+
+export const playbackSlice = createSlice({
+  name: "playback",
+  initialState,
+  reducers: {
+    setPlaybackProgress: (
+      state: PlaybackState,
+      action: PayloadAction<PlaybackProgress>
+    ) => {
+      return action.payload;
+    },
+  },
+});
+
+export const { setPlaybackProgress } = playbackSlice.actions;
+
+export default playbackSlice.reducer;
@@ -1,23 +1,58 @@
 import { createSlice, PayloadAction } from "@reduxjs/toolkit";
 import { themes } from "../lib/themes";
-import { Theme } from "../lib/types";
+import {
+  ConnectionProfile,
+  FieldOrientation,
+  Host,
+  Theme,
+  TrailColoring,
+} from "../lib/types";
 import { ColorCorrection, Offset } from "../lib/data-response";
 import { config } from "../util/config";
 
 export interface SettingsState {
   /**
-   * How many times the site asks the websocket server for data (in milliseconds)
+   * How many times a second each data command is requested from the websocket server
    */
-  pollingInterval: number;
+  rates: { [command: string]: number };
   showFog: string;
   showCompass: string;
   showXYTracks: string;
+  showTrail: string;
+  showHeatmap: string;
+  /**
+   * Draw detections as they arrive instead of the tracked detections
+   */
+  showRawDetections: string;
+  /**
+   * Draw elements where they were last seen after they leave the camera's view
+   */
+  showMemory: string;
+  trailColoring: TrailColoring;
+  /**
+   * Rotation and mirroring of the field view, saved with the active profile
+   */
+  fieldOrientation: FieldOrientation;
+  /**
+   * Id of the game in `config.games` the field and detections are drawn for
+   */
+  gameProfile: string;
   theme: Theme;
   cameraOffset: Offset;
   gpsOffset: Offset;
   colorCorrection: ColorCorrection
   socketIp: string;
   socketPort: string;
+  streamPort: string;
+  streamPath: string;
+  /**
+   * Saved robot connections, selectable from the navigator
+   */
+  profiles: ConnectionProfile[];
+  /**
+   * Name of the profile last selected or saved, restored on startup
+   */
+  activeProfile: string;
 }
 
 const getTheme = (t: string) => {
@@ -31,28 +66,147 @@ const getTheme = (t: string) => {
   }
 };
 
+/**
+ * Loads the saved data rates on top of the defaults
+ *
+ * @returns { [command: string]: number }
+ */
+const getRates = (): { [command: string]: number } => {
+  try {
+    return { ...config.rates, ...JSON.parse(localStorage.getItem("rates") || "{}") };
+  } catch (ex) {
+    console.log(`[Settings] Failed to load the saved data rates - ${ex}`);
+    return { ...config.rates };
+  }
+};
+
+/**
+ * Loads the saved field orientation on top of the default
+ *
+ * @returns FieldOrientation
+ */
+const getFieldOrientation = (): FieldOrientation => {
+  try {
+    return {
+      ...config.field.orientation,
+      ...JSON.parse(localStorage.getItem("fieldOrientation") || "{}"),
+    };
+  } catch (ex) {
+    console.log(`[Settings] Failed to load the saved field orientation - ${ex}`);
+    return { ...config.field.orientation };
+  }
+};
+
+/**
+ * Loads the saved connection profiles
+ *
+ * @returns ConnectionProfile[]
+ */
+const getProfiles = (): ConnectionProfile[] => {
+  try {
+    const profiles = JSON.parse(localStorage.getItem("profiles") || "[]");
+    return Array.isArray(profiles) ? profiles : [];
+  } catch (ex) {
+    console.log(`[Settings] Failed to load the saved profiles - ${ex}`);
+    return [];
+  }
+};
+
+/**
+ * Saves the connection profiles and which one is active
+ *
+ * @param state Settings state
+ */
+const storeProfiles = (state: SettingsState) => {
+  localStorage.setItem("profiles", JSON.stringify(state.profiles));
+  if (state.activeProfile) {
+    localStorage.setItem("activeProfile", state.activeProfile);
+  } else {
+    localStorage.removeItem("activeProfile");
+  }
+};
+
+/**
+ * Copies a change to the connection settings into the active profile, so the robot keeps it
+ *
+ * @param state Settings state
+ * @param changes Changed profile fields
+ */
+const updateActiveProfile = (
+  state: SettingsState,
+  changes: Partial<ConnectionProfile>
+) => {
+  const profile = state.profiles.find((p) => p.name === state.activeProfile);
+  if (profile) {
+    Object.assign(profile, changes);
+    storeProfiles(state);
+  }
+};
+
+/**
+ * Points the connection settings at a profile
+ *
+ * @param state Settings state
+ * @param profile Profile to use
+ */
+const applyProfile = (state: SettingsState, profile: ConnectionProfile) => {
+  state.socketIp = profile.ip;
+  state.socketPort = profile.port;
+  state.streamPort = profile.streamPort;
+  state.streamPath = profile.streamPath;
+  state.rates = { ...config.rates, ...profile.rates };
+  state.fieldOrientation = { ...config.field.orientation, ...profile.orientation };
+  state.activeProfile = profile.name;
+};
+
+const profiles = getProfiles();
+const lastProfile = profiles.find(
+  (profile) => profile.name === localStorage.getItem("activeProfile")
+);
+
 const initialState: SettingsState = {
-  pollingInterval: config.pollingInterval,
+  rates: getRates(),
   showFog: localStorage.getItem("showFog") || "true",
   showCompass: localStorage.getItem("showCompass") || "true",
   showXYTracks: localStorage.getItem("showXYTracks") || "false",
+  showTrail: localStorage.getItem("showTrail") || "false",
+  showHeatmap: localStorage.getItem("showHeatmap") || "false",
+  showRawDetections: localStorage.getItem("showRawDetections") || "false",
+  showMemory: localStorage.getItem("showMemory") || "true",
+  trailColoring:
+    (localStorage.getItem("trailColoring") as TrailColoring) || TrailColoring.None,
+  fieldOrientation: getFieldOrientation(),
+  gameProfile: localStorage.getItem("gameProfile") || config.defaultGame,
   theme: getTheme(localStorage.getItem("theme") || themes.red.id),
   cameraOffset: { x: 0, y: 0, z: 0, headingOffset: 0, elevationOffset: 0 },
   gpsOffset: { x: 0, y: 0, z: 0, headingOffset: 0 },
   colorCorrection: { h: 0, s: 0, v: 0 },
-  socketIp: config.socketIP,
-  socketPort: config.socketPort,
+  socketIp: localStorage.getItem("socketIp") || config.socketIP,
+  socketPort: localStorage.getItem("socketPort") || config.socketPort,
+  streamPort: localStorage.getItem("streamPort") || config.stream.port,
+  streamPath: localStorage.getItem("streamPath") ?? config.stream.path,
+  profiles,
+  activeProfile: null,
 };
 
+if (lastProfile) {
+  applyProfile(initialState, lastProfile);
+}
+
 export const settingsSlice = createSlice({
   name: "settings",
   initialState,
   reducers: {
-    setPollingInterval: (
+    /**
+     * Changes the data rates, and updates the active profile so the robot keeps its rates
+     */
+    setRates: (
       state: SettingsState,
-      action: PayloadAction<number>
+      action: PayloadAction<{ [command: string]: number }>
     ) => {
-      state.pollingInterval = action.payload;
+      localStorage.setItem("rates", JSON.stringify(action.payload));
+      state.rates = action.payload;
+      updateActiveProfile(state, { rates: { ...action.payload } });
     },
     setShowFog: (state: SettingsState, action: PayloadAction<string>) => {
       localStorage.setItem("showFog", action.payload);
@@ -66,6 +220,44 @@ export const settingsSlice = createSlice({
       localStorage.setItem("showXYTracks", action.payload);
       state.showXYTracks = action.payload;
     },
+    setShowTrail: (state: SettingsState, action: PayloadAction<string>) => {
+      localStorage.setItem("showTrail", action.payload);
+      state.showTrail = action.payload;
+    },
+    setShowHeatmap: (state: SettingsState, action: PayloadAction<string>) => {
+      localStorage.setItem("showHeatmap", action.payload);
+      state.showHeatmap = action.payload;
+    },
+    setShowRawDetections: (state: SettingsState, action: PayloadAction<string>) => {
+      localStorage.setItem("showRawDetections", action.payload);
+      state.showRawDetections = action.payload;
+    },
+    setShowMemory: (state: SettingsState, action: PayloadAction<string>) => {
+      localStorage.setItem("showMemory", action.payload);
+      state.showMemory = action.payload;
+    },
+    setTrailColoring: (
+      state: SettingsState,
+      action: PayloadAction<TrailColoring>
+    ) => {
+      localStorage.setItem("trailColoring", action.payload);
+      state.trailColoring = action.payload;
+    },
+    /**
+     * Turns the field view, and updates the active profile so the robot keeps its orientation
+     */
+    setFieldOrientation: (
+      state: SettingsState,
+      action: PayloadAction<FieldOrientation>
+    ) => {
+      localStorage.setItem("fieldOrientation", JSON.stringify(action.payload));
+      state.fieldOrientation = action.payload;
+      updateActiveProfile(state, { orientation: action.payload });
+    },
+    setGameProfile: (state: SettingsState, action: PayloadAction<string>) => {
+      localStorage.setItem("gameProfile", action.payload);
+      state.gameProfile = action.payload;
+    },
     setTheme: (state: SettingsState, action: PayloadAction<Theme>) => {
       localStorage.setItem("theme", action.payload.id);
       state.theme = action.payload;
@@ -79,11 +271,67 @@ export const settingsSlice = createSlice({
     setColorCorrection: (state: SettingsState, action: PayloadAction<ColorCorrection>) => {
       state.colorCorrection = action.payload
     },
-    setSocketIp: (state: SettingsState, action: PayloadAction<string>) => {
-      state.socketIp = action.payload;
+    /**
+     * Points the connection at another host, and updates the active profile so the robot
+     * keeps it, dispatched by the connection middleware when the host is saved
+     */
+    setHost: (state: SettingsState, action: PayloadAction<Host>) => {
+      const { ip, port, streamPort, streamPath } = action.payload;
+      localStorage.setItem("socketIp", ip);
+      localStorage.setItem("socketPort", port);
+      localStorage.setItem("streamPort", streamPort);
+      localStorage.setItem("streamPath", streamPath);
+      state.socketIp = ip;
+      state.socketPort = port;
+      state.streamPort = streamPort;
+      state.streamPath = streamPath;
+      updateActiveProfile(state, { ip, port, streamPort, streamPath });
+    },
+    /**
+     * Saves the current connection settings under a name, replacing a profile with the same name
+     */
+    saveProfile: (state: SettingsState, action: PayloadAction<string>) => {
+      const profile: ConnectionProfile = {
+        name: action.payload,
+        ip: state.socketIp,
+        port: state.socketPort,
+        streamPort: state.streamPort,
+        streamPath: state.streamPath,
+        rates: { ...state.rates },
+        orientation: { ...state.fieldOrientation },
+      };
+      const index = state.profiles.findIndex((p) => p.name === profile.name);
+      if (index >= 0) {
+        state.profiles[index] = profile;
+      } else {
+        state.profiles.push(profile);
+      }
+      state.activeProfile = profile.name;
+      storeProfiles(state);
+    },
+    deleteProfile: (state: SettingsState, action: PayloadAction<string>) => {
+      state.profiles = state.profiles.filter((p) => p.name !== action.payload);
+      if (state.activeProfile === action.payload) {
+        state.activeProfile = null;
+      }
+      storeProfiles(state);
     },
-    setSocketPort: (state: SettingsState, action: PayloadAction<string>) => {
-      state.socketPort = action.payload;
+    /**
+     * Switches the connection settings to a saved profile, the connection middleware reconnects
+     */
+    selectProfile: (state: SettingsState, action: PayloadAction<string>) => {
+      const profile = state.profiles.find((p) => p.name === action.payload);
+      if (!profile) {
+        return;
+      }
+      applyProfile(state, profile);
+      localStorage.setItem("socketIp", state.socketIp);
+      localStorage.setItem("socketPort", state.socketPort);
+      localStorage.setItem("streamPort", state.streamPort);
+      localStorage.setItem("streamPath", state.streamPath);
+      localStorage.setItem("rates", JSON.stringify(state.rates));
+      localStorage.setItem("fieldOrientation", JSON.stringify(state.fieldOrientation));
+      storeProfiles(state);
     },
   },
 });
@@ -92,13 +340,22 @@ export const {
   setShowFog,
   setShowCompass,
   setShowXYTracks,
-  setPollingInterval,
+  setShowTrail,
+  setShowHeatmap,
+  setShowRawDetections,
+  setShowMemory,
+  setTrailColoring,
+  setFieldOrientation,
+  setGameProfile,
+  setRates,
   setTheme,
   setCameraOffset,
   setGpsOffset,
   setColorCorrection,
-  setSocketIp,
-  setSocketPort,
+  setHost,
+  saveProfile,
+  deleteProfile,
+  selectProfile,
 } = settingsSlice.actions;
 
 export default settingsSlice.reducer;
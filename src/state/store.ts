@@ -1,18 +1,30 @@
 import { configureStore } from "@reduxjs/toolkit";
 import appReducer from "./app-slice";
 import dataReducer from "./data-slice";
+import diagnosticsReducer from "./diagnostics-slice";
 import settingsReducer from "./settings-slice";
+import playbackReducer from "./playback-slice";
+import annotationsReducer from "./annotations-slice";
+import historyReducer from "./history-slice";
+import { historyMiddleware } from "./history";
+import { createConnectionMiddleware } from "./connection";
+
+const connection = createConnectionMiddleware();
 
 export const store = configureStore({
   reducer: {
     app: appReducer,
     data: dataReducer,
+    diagnostics: diagnosticsReducer,
     settings: settingsReducer,
+    playback: playbackReducer,
+    annotations: annotationsReducer,
+    history: historyReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
-      serializableCheck: false,
-    }),
+      thunk: { extraArgument: connection.extra },
+    }).concat(historyMiddleware, connection.middleware),
 });
 
 export type RootState = ReturnType<typeof store.getState>;
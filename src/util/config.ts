@@ -1,4 +1,5 @@
-import { Element } from "../lib/types";
+import { Element, GameProfile } from "../lib/types";
+import { commands } from "../lib/commands";
 import { images } from "./images";
 
 /**
@@ -25,9 +26,136 @@ export const config = {
   SCALE_Y: 480,
 
   /**
-   * Rate at which the data services polls for data (ms)
+   * Default rate each data command is polled or pushed at (Hz), changeable in the settings
    */
-  pollingInterval: 60,
+  rates: {
+    [commands.gPos]: 30,
+    [commands.gDetect]: 15,
+    [commands.gColor]: 15,
+    [commands.gDepth]: 15,
+    [commands.gStats]: 1,
+    [commands.gMap]: 2,
+  } as { [command: string]: number },
+
+  /**
+   * Rate for commands without a configured rate and the highest rate allowed (Hz)
+   */
+  defaultRate: 15,
+  maxRate: 60,
+
+  /**
+   * Format the data service asks the server to send frames in. Servers that
+   * don't support MessagePack keep sending JSON, which is still understood
+   */
+  messageFormat: "msgpack",
+
+  /**
+   * Server push settings. If the server doesn't acknowledge the subscribe
+   * message within the timeout (ms) the data service polls instead
+   */
+  subscription: {
+    enabled: true,
+    ackTimeout: 1000,
+  },
+
+  /**
+   * Polling settings. Paced polling only sends the next request once a reply arrives or the
+   * request times out (ms), with at most maxInFlight requests waiting for a reply
+   */
+  polling: {
+    paced: true,
+    maxInFlight: 2,
+    replyTimeout: 500,
+  },
+
+  /**
+   * How much history is kept for trends and trails, by age (s) and number of frames
+   */
+  history: {
+    seconds: 30,
+    capacity: 2000,
+  },
+
+  /**
+   * Network health readout, computed over the last `samples` requests every `interval` (ms)
+   */
+  networkStats: {
+    samples: 200,
+    interval: 1000,
+  },
+
+  /**
+   * Detection tracking across frames, see `TrackerOptions`
+   */
+  tracking: {
+    maxDistance: 0.3,
+    smoothing: 0.6,
+    minHits: 2,
+    keepAlive: 500,
+  },
+
+  /**
+   * Elements remembered after they leave the camera's view, see `WorldMemoryOptions`
+   */
+  memory: {
+    matchDistance: 0.3,
+    maxAge: 120,
+    clearRange: 2.5,
+  },
+
+  /**
+   * Robot path drawn on the field: how far back it goes (s), how many segments it fades
+   * over and the speed (m/s) drawn in the hottest color when colored by speed
+   */
+  trail: {
+    seconds: 15,
+    segments: 30,
+    width: 3,
+    maxSpeed: 2,
+  },
+
+  /**
+   * Coverage heatmap of where the robot has driven this session, counted in square cells (m)
+   */
+  heatmap: {
+    cellSize: 0.1,
+    opacity: 0.6,
+  },
+
+  /**
+   * Pins and notes drawn on the field, note points closer than `noteSpacing` are dropped (m)
+   */
+  annotations: {
+    pinRadius: 6,
+    noteWidth: 3,
+    noteSpacing: 0.02,
+  },
+
+  /**
+   * Navigation goal drawn on the field, dragging less than `minDrag` keeps the heading
+   * pointing away from the robot (m)
+   */
+  goal: {
+    color: "#00e676",
+    arrowLength: 0.25,
+    minDrag: 0.1,
+  },
+
+  /**
+   * Reconnect backoff and stale connection detection (ms)
+   */
+  reconnect: {
+    initialDelay: 500,
+    maxDelay: 10000,
+    jitter: 0.5, // fraction of the delay that is randomised
+    degradedAfter: 2000,
+    timeout: 8000,
+  },
+
+  /**
+   * How long to wait for the reply to a get/set command (ms)
+   */
+  requestTimeout: 2000,
   logDataResponse: false,
   detectOutOfBoundsElements: true,
   colors: {
@@ -47,12 +175,24 @@ export const config = {
     grayPurple: "#293045",
   },
   field: {
-    dimension: 3.6576, // meters
     oov: 0.1,
-    texture: images.field,
+    /**
+     * Zoom limits of the field view and the zoom factor of one wheel step or button press
+     */
+    zoom: {
+      min: 1,
+      max: 8,
+      step: 1.25,
+    },
+    /**
+     * Field orientation until one is picked, see `FieldOrientation`
+     */
+    orientation: {
+      rotation: 0,
+      mirror: false,
+    },
     scale: 1.5,
     compass: {
-      texture: images.map.compass,
       scale: 0.23,
       ringPositionCorrectionX: 0.1,
       lineScale: 0.03,
@@ -80,40 +220,47 @@ export const config = {
       fov: 50,
     },
   },
-  elements: {
-    textures: {
-      [Element.BallBlue]: images.elements.blueBall,
-      [Element.BallRed]: images.elements.redBall,
-    },
-    size: {
-      [Element.BallBlue]: {
-        height: 0.08255,
-        width: 0.08255,
-        scale: 2.0,
-      },
-      [Element.BallRed]: {
-        height: 0.08255,
-        width: 0.08255,
-        scale: 2.0
-      },
-    },
-    borderColors: {
-      [Element.BallRed]: "rgba(255, 0, 0, .8)",
-      [Element.BallBlue]: "rgba(0, 0, 255, .8)",
-    },
-    backgroundColors: {
-      [Element.BallRed]: "rgba(255, 0, 0, .3)",
-      [Element.BallBlue]: "rgba(0, 0, 255, .3)",
-    },
-    label: {
-      textColors: {
-        white: "rgba(255, 255, 255, 1)",
-        black: "rgba(0, 0, 0, 1)",
+  /**
+   * Color of the text drawn over detections
+   */
+  labelColor: "rgba(255, 255, 255, 1)",
+
+  /**
+   * Game shown until another is picked in the settings
+   */
+  defaultGame: "default",
+
+  /**
+   * Games the field view can be set up for, more can be added in config.json
+   */
+  games: {
+    default: {
+      name: "Red and Blue Balls",
+      field: {
+        texture: images.field,
+        dimension: 3.6576, // meters
       },
-      text: {
-        [Element.BallRed]: "Red Ball",
-        [Element.BallBlue]: "Blue Ball",
+      elements: {
+        [Element.BallBlue]: {
+          name: "Blue Ball",
+          texture: images.elements.blueBall,
+          width: 0.08255,
+          height: 0.08255,
+          scale: 2.0,
+          borderColor: "rgba(0, 0, 255, .8)",
+          backgroundColor: "rgba(0, 0, 255, .3)",
+        },
+        [Element.BallRed]: {
+          name: "Red Ball",
+          texture: images.elements.redBall,
+          width: 0.08255,
+          height: 0.08255,
+          scale: 2.0,
+          borderColor: "rgba(255, 0, 0, .8)",
+          backgroundColor: "rgba(255, 0, 0, .3)",
+        },
       },
+      fieldObjects: [],
     },
-  },
+  } as { [id: string]: GameProfile },
 };
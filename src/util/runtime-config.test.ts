@@ -0,0 +1,134 @@
+import { mergeConfig } from "./runtime-config";
+
+/**
+ * Answers fetch with a response
+ *
+ * @param status HTTP status
+ * @param body Response body
+ * @param contentType Content type header
+ */
+const serve = (status: number, body: string, contentType = "application/json") => {
+  global.fetch = jest.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 404 ? "Not Found" : "",
+    headers: { get: () => contentType },
+    text: () => Promise.resolve(body),
+  });
+};
+
+/**
+ * Loads config.json into a fresh copy of the config
+ *
+ * @returns The problems found and the resulting config
+ */
+const load = async () => {
+  jest.resetModules();
+  const { config } = await import("./config");
+  const { loadRuntimeConfig } = await import("./runtime-config");
+  const errors = await loadRuntimeConfig();
+  return { errors, config };
+};
+
+describe("mergeConfig", () => {
+  it("merges nested values over the defaults", () => {
+    const target = { rate: 10, stream: { port: "3000", path: "/" } };
+    const errors: string[] = [];
+
+    mergeConfig(target, { rate: 20, stream: { port: "8080" } }, "", errors);
+
+    expect(target).toEqual({ rate: 20, stream: { port: "8080", path: "/" } });
+    expect(errors).toEqual([]);
+  });
+
+  it("skips unknown keys and values of the wrong type", () => {
+    const target = { rate: 10, stream: { port: "3000" } };
+    const errors: string[] = [];
+
+    mergeConfig(
+      target,
+      { rate: "fast", stream: { host: "robot" }, extra: true },
+      "",
+      errors
+    );
+
+    expect(target).toEqual({ rate: 10, stream: { port: "3000" } });
+    expect(errors).toEqual([
+      '"rate" should be of type number, not string',
+      'Unknown key "stream.host"',
+      'Unknown key "extra"',
+    ]);
+  });
+
+  it("adds new keys to open maps when they match the template", () => {
+    const rates: { [command: string]: unknown } = {};
+    const errors: string[] = [];
+
+    mergeConfig(rates, { g_custom: 5, g_broken: "5" }, "rates", errors);
+
+    expect(rates).toEqual({ g_custom: 5 });
+    expect(errors).toEqual(['"rates.g_broken" should be of type number, not string']);
+  });
+
+  it("starts new games from the default game without its elements", async () => {
+    const { config } = await import("./config");
+    const games = structuredClone(config.games) as { [id: string]: unknown };
+    const errors: string[] = [];
+
+    mergeConfig(
+      games,
+      { skills: { name: "Skills", elements: { 7: { name: "Cube", scale: 1 } } } },
+      "games",
+      errors
+    );
+
+    expect(errors).toEqual([]);
+    expect(games.skills).toMatchObject({
+      name: "Skills",
+      field: config.games[config.defaultGame].field,
+      elements: { 7: { name: "Cube", scale: 1, width: 0.08255 } },
+    });
+    expect(Object.keys((games.skills as { elements: object }).elements)).toEqual(["7"]);
+  });
+});
+
+describe("loadRuntimeConfig", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("uses the defaults when there is no file", async () => {
+    serve(404, "");
+    const { errors } = await load();
+    expect(errors).toEqual([]);
+  });
+
+  it("uses the defaults when the server answers with a page", async () => {
+    serve(200, "<!DOCTYPE html><html></html>", "text/html");
+    const { errors } = await load();
+    expect(errors).toEqual([]);
+  });
+
+  it("reads the file whatever its content type", async () => {
+    serve(200, JSON.stringify({ socketPort: "4040" }), "text/plain");
+    const { errors, config } = await load();
+    expect(errors).toEqual([]);
+    expect(config.socketPort).toBe("4040");
+  });
+
+  it("reports files that can't be read", async () => {
+    serve(200, "{ socketPort: 4040 }", "application/octet-stream");
+    expect((await load()).errors).toEqual([
+      expect.stringMatching(/^Failed to read config.json - /),
+    ]);
+
+    serve(500, "");
+    expect((await load()).errors).toEqual([
+      expect.stringMatching(/^Failed to read config.json - server answered 500/),
+    ]);
+  });
+});
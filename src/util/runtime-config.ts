@@ -0,0 +1,152 @@
+import { config } from "./config";
+import { Element } from "../lib/types";
+
+/**
+ * Problems found in config.json, the offending keys keep their default values
+ */
+export const configErrors: string[] = [];
+
+/**
+ * Describes the type of a config value for error messages
+ *
+ * @param value Config value
+ * @returns string
+ */
+const typeOf = (value: unknown): string => {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+};
+
+/**
+ * Maps whose keys are data commands, games or element classes, so config.json may add
+ * keys to them. New entries start from the template value, `*` matches any key
+ */
+const openMaps: { [path: string]: unknown } = {
+  rates: config.defaultRate,
+  games: config.games[config.defaultGame],
+  "games.*.elements": config.games[config.defaultGame].elements[Element.BallRed],
+};
+
+/**
+ * Template for new entries of an open map
+ *
+ * @param path Dotted path of the map
+ * @returns unknown The template, undefined if the map isn't open
+ */
+const templateOf = (path: string): unknown => {
+  const keys = path.split(".");
+  const pattern = Object.keys(openMaps).find((openMap) => {
+    const parts = openMap.split(".");
+    return (
+      parts.length === keys.length &&
+      parts.every((part, i) => part === "*" || part === keys[i])
+    );
+  });
+  return pattern ? openMaps[pattern] : undefined;
+};
+
+/**
+ * Copies a template for a new open map entry, leaving out the entries of maps inside it
+ *
+ * @param template Template value
+ * @param path Dotted path of the new entry
+ * @returns unknown
+ */
+const fromTemplate = (template: unknown, path: string): unknown => {
+  const value = structuredClone(template);
+  if (typeOf(value) === "object") {
+    Object.keys(value).forEach((key) => {
+      if (templateOf(`${path}.${key}`) !== undefined) {
+        value[key] = {};
+      }
+    });
+  }
+  return value;
+};
+
+/**
+ * Deep merges overrides into a config object, skipping keys that don't exist in
+ * the defaults or whose type doesn't match the default value
+ *
+ * @param target Config object the overrides are merged into
+ * @param overrides Values from config.json
+ * @param path Dotted path of the target, used in error messages
+ * @param errors Collects a message for every skipped key
+ */
+export const mergeConfig = (
+  target: { [key: string]: unknown },
+  overrides: { [key: string]: unknown },
+  path: string,
+  errors: string[]
+) => {
+  const template = templateOf(path);
+  Object.entries(overrides).forEach(([key, value]) => {
+    const keyPath = path ? `${path}.${key}` : key;
+    // new keys in open maps are checked against the map's template
+    const sample = key in target ? target[key] : template;
+
+    if (sample === undefined) {
+      errors.push(`Unknown key "${keyPath}"`);
+    } else if (typeOf(value) !== typeOf(sample)) {
+      errors.push(`"${keyPath}" should be of type ${typeOf(sample)}, not ${typeOf(value)}`);
+    } else if (typeOf(value) === "object") {
+      if (!(key in target)) {
+        target[key] = fromTemplate(sample, keyPath);
+      }
+      mergeConfig(
+        target[key] as { [key: string]: unknown },
+        value as { [key: string]: unknown },
+        keyPath,
+        errors
+      );
+    } else {
+      target[key] = value;
+    }
+  });
+};
+
+/**
+ * Loads config.json from next to index.html and merges it over the built in defaults
+ *
+ * The file is optional, the defaults are used when the server answers 404 or with a page
+ * instead, as the development server does for missing files. Whatever else it serves is
+ * read as JSON whatever its content type, some static servers send text/plain.
+ * Must run before the store and components are imported, as they read the config on load
+ *
+ * @param url Location of the config file
+ * @returns Promise<string[]> The problems found in the file
+ */
+export const loadRuntimeConfig = async (url = "config.json"): Promise<string[]> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { cache: "no-store" });
+  } catch (ex) {
+    console.log(`[Config] Failed to fetch ${url} - ${ex}`);
+    return configErrors;
+  }
+  if (response.status === 404) {
+    return configErrors;
+  }
+
+  try {
+    if (!response.ok) {
+      throw new Error(`server answered ${response.status} ${response.statusText}`);
+    }
+    const body = await response.text();
+    // an HTML page is the server's fallback for a missing file, not a broken config
+    if (body.trimStart().startsWith("<")) {
+      return configErrors;
+    }
+    const overrides = JSON.parse(body);
+    if (typeOf(overrides) !== "object") {
+      throw new Error(`expected an object, not ${typeOf(overrides)}`);
+    }
+    mergeConfig(config, overrides, "", configErrors);
+  } catch (ex) {
+    configErrors.push(`Failed to read ${url} - ${ex.message ?? ex}`);
+  }
+  configErrors.forEach((error) => console.log(`[Config] ${error}`));
+  return configErrors;
+};